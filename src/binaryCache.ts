@@ -0,0 +1,86 @@
+import * as vscode from 'vscode';
+
+// bumped whenever binary detection changes, so verdicts of the old detection are dropped
+const CACHE_VERSION = 2;
+
+interface BinaryCacheData {
+  version: typeof CACHE_VERSION;
+  // content hash of every file detected as binary, with the path it was last seen at
+  binary: Record<string, string>;
+}
+
+/**
+ * Binary detection verdicts stored in .vscode/claudesync.binary.json, keyed by content
+ * hash so a file is checked again as soon as it changes. Replaces the old behaviour of
+ * appending every binary file to excludePatterns.
+ */
+export class BinaryCache {
+  public static readonly CACHE_FILE = 'claudesync.binary.json';
+  private outputChannel: vscode.OutputChannel;
+  private cacheUri?: vscode.Uri;
+  private data: BinaryCacheData = { version: CACHE_VERSION, binary: {} };
+  // reverse index, so a path's previous verdict can be dropped when its content changes
+  private hashByPath = new Map<string, string>();
+  private dirty = false;
+
+  constructor(outputChannel: vscode.OutputChannel) {
+    this.outputChannel = outputChannel;
+  }
+
+  public async load(workspaceFolder: vscode.Uri): Promise<void> {
+    this.cacheUri = vscode.Uri.joinPath(
+      workspaceFolder,
+      '.vscode',
+      BinaryCache.CACHE_FILE,
+    );
+    this.data = { version: CACHE_VERSION, binary: {} };
+    this.dirty = false;
+    try {
+      const content = await vscode.workspace.fs.readFile(this.cacheUri);
+      const data = JSON.parse(Buffer.from(content).toString('utf8'));
+      if (data?.version === CACHE_VERSION && data.binary) {
+        this.data = data;
+      }
+    } catch {
+      // no verdicts yet
+    }
+    this.hashByPath = new Map(
+      Object.entries(this.data.binary).map(([hash, path]) => [path, hash]),
+    );
+  }
+
+  public async save(): Promise<void> {
+    if (!this.cacheUri || !this.dirty) {
+      return;
+    }
+    try {
+      await vscode.workspace.fs.writeFile(
+        this.cacheUri,
+        Buffer.from(JSON.stringify(this.data, null, 2), 'utf8'),
+      );
+      this.dirty = false;
+    } catch (error) {
+      this.outputChannel.appendLine(
+        `Failed to save binary file cache: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  public has(hash: string): boolean {
+    return this.data.binary[hash] !== undefined;
+  }
+
+  public set(hash: string, path: string, binary: boolean): void {
+    const previous = this.hashByPath.get(path);
+    if (previous !== undefined && previous !== hash) {
+      delete this.data.binary[previous];
+      this.hashByPath.delete(path);
+      this.dirty = true;
+    }
+    if (binary && this.data.binary[hash] !== path) {
+      this.data.binary[hash] = path;
+      this.hashByPath.set(path, hash);
+      this.dirty = true;
+    }
+  }
+}
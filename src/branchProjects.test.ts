@@ -0,0 +1,33 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { branchProjectName, matchesBranch } from './branchProjects';
+
+describe('matchesBranch', () => {
+  it('matches * within a segment and ** across segments', () => {
+    assert.equal(matchesBranch('feature/*', 'feature/login'), true);
+    assert.equal(matchesBranch('feature/*', 'feature/auth/login'), false);
+    assert.equal(matchesBranch('feature/**', 'feature/auth/login'), true);
+    assert.equal(matchesBranch('release-?.x', 'release-2.x'), true);
+    assert.equal(matchesBranch('main', 'main-old'), false);
+  });
+});
+
+describe('branchProjectName', () => {
+  const rules = [
+    { branch: 'main', project: 'App' },
+    { branch: 'feature/**', project: 'App ({branch})' },
+  ];
+
+  it('uses the first matching rule and fills in the branch', () => {
+    assert.equal(branchProjectName(rules, 'main'), 'App');
+    assert.equal(
+      branchProjectName(rules, 'feature/auth/login'),
+      'App (feature/auth/login)',
+    );
+  });
+
+  it('falls back to the folder project when nothing matches', () => {
+    assert.equal(branchProjectName(rules, 'develop'), undefined);
+    assert.equal(branchProjectName(rules, undefined), undefined);
+  });
+});
@@ -0,0 +1,40 @@
+import type { BranchProject } from './types';
+
+/**
+ * The name of the project a branch syncs to: the project of the first rule whose branch
+ * pattern matches, with {branch} replaced by the branch name. Undefined when no rule
+ * matches, or HEAD is detached, so the folder's own project is used.
+ */
+export function branchProjectName(
+  rules: BranchProject[],
+  branch: string | undefined,
+): string | undefined {
+  if (branch === undefined) {
+    return undefined;
+  }
+  const rule = rules.find((rule) => matchesBranch(rule.branch, branch));
+  return rule?.project.replaceAll('{branch}', branch);
+}
+
+// * matches within one segment of a branch name like feature/x, ** across segments
+export function matchesBranch(pattern: string, branch: string): boolean {
+  return globToRegExp(pattern).test(branch);
+}
+
+function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*' && pattern[i + 1] === '*') {
+      source += '.*';
+      i++;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
@@ -0,0 +1,64 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { BUNDLE_FILE, Bundler, isBundlePath } from './bundler';
+import type { FileContent } from './types';
+
+const file = (path: string, content = 'x'): FileContent => ({
+  path,
+  content,
+  size: content.length,
+});
+
+describe('Bundler', () => {
+  it('bundles files by directory in directory mode', () => {
+    const bundler = new Bundler({
+      bundleMode: 'directory',
+      bundleGroups: [],
+      bundleMaxFileSize: 10,
+    });
+    assert.equal(bundler.bundleFor(file('a.ts')), BUNDLE_FILE);
+    assert.equal(bundler.bundleFor(file('src/a/b.ts')), `src/a/${BUNDLE_FILE}`);
+    assert.equal(bundler.bundleFor(file('big.ts', 'x'.repeat(11))), undefined);
+    assert.equal(bundler.bundleFor(file(`src/${BUNDLE_FILE}`)), undefined);
+  });
+
+  it('bundles files by the first matching group in groups mode', () => {
+    const bundler = new Bundler({
+      bundleMode: 'groups',
+      bundleGroups: [
+        { name: 'Tests & fixtures', files: ['*.test.ts', 'fixtures/'] },
+        { name: 'all', files: '*.ts' },
+      ],
+      bundleMaxFileSize: 100,
+    });
+    const tests = '.claudesync-bundles/Tests-fixtures.md';
+    assert.equal(bundler.bundleFor(file('src/a.test.ts')), tests);
+    assert.equal(bundler.bundleFor(file('fixtures/data.json')), tests);
+    assert.equal(
+      bundler.bundleFor(file('src/a.ts')),
+      '.claudesync-bundles/all.md',
+    );
+    assert.equal(bundler.bundleFor(file('README.md')), undefined);
+    assert.equal(isBundlePath(tests), true);
+  });
+
+  it('packs members sorted by path under headers', () => {
+    const bundler = new Bundler({
+      bundleMode: 'directory',
+      bundleGroups: [],
+      bundleMaxFileSize: 100,
+    });
+    const bundle = bundler.build(BUNDLE_FILE, [
+      file('b.ts', 'const b = 2;'),
+      file('a.ts', 'const a = 1;'),
+    ]);
+    assert.deepEqual(bundle.members, ['a.ts', 'b.ts']);
+    assert.equal(bundle.generated, true);
+    assert.equal(bundle.size, Buffer.byteLength(bundle.content));
+    assert.ok(
+      bundle.content.indexOf('File: a.ts\n') <
+        bundle.content.indexOf('File: b.ts\n'),
+    );
+    assert.match(bundle.content, /File: a\.ts\n=+\nconst a = 1;/);
+  });
+});
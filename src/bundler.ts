@@ -0,0 +1,80 @@
+import ignore from 'ignore';
+import type { BundleGroup, FileContent, WorkspaceConfig } from './types';
+
+export const BUNDLE_FILE = '.claudesync-bundle.md';
+export const GROUP_BUNDLE_DIR = '.claudesync-bundles';
+
+const SEPARATOR = '='.repeat(64);
+
+type BundleConfig = Pick<
+  WorkspaceConfig,
+  'bundleMode' | 'bundleGroups' | 'bundleMaxFileSize'
+>;
+
+export function isBundlePath(path: string): boolean {
+  return (
+    path === BUNDLE_FILE ||
+    path.endsWith(`/${BUNDLE_FILE}`) ||
+    path.startsWith(`${GROUP_BUNDLE_DIR}/`)
+  );
+}
+
+/**
+ * Decides which bundle doc a file is packed into: one per directory, or one per
+ * configured group of patterns. Files larger than bundleMaxFileSize, and in group mode
+ * files matching no group, are uploaded on their own.
+ */
+export class Bundler {
+  private groups: {
+    matcher: ReturnType<typeof ignore>;
+    group: BundleGroup;
+  }[];
+
+  constructor(private readonly config: BundleConfig) {
+    this.groups = config.bundleGroups.map((group) => ({
+      matcher: ignore().add(group.files),
+      group,
+    }));
+  }
+
+  public bundleFor(file: FileContent): string | undefined {
+    if (
+      this.config.bundleMode === 'off' ||
+      file.size > this.config.bundleMaxFileSize ||
+      isBundlePath(file.path)
+    ) {
+      return undefined;
+    }
+    if (this.config.bundleMode === 'directory') {
+      const separator = file.path.lastIndexOf('/');
+      return separator === -1
+        ? BUNDLE_FILE
+        : `${file.path.slice(0, separator)}/${BUNDLE_FILE}`;
+    }
+    const match = this.groups.find(({ matcher }) => matcher.ignores(file.path));
+    return match
+      ? `${GROUP_BUNDLE_DIR}/${match.group.name.replace(/[^\w.-]+/g, '-')}.md`
+      : undefined;
+  }
+
+  // packs the members into one doc, each starting with a header naming its path
+  public build(path: string, members: FileContent[]): FileContent {
+    const sorted = [...members].sort((a, b) => a.path.localeCompare(b.path));
+    const content = [
+      `# ${path}`,
+      '',
+      `${sorted.length} file(s) packed by ClaudeSync. Each file starts with a "File:" header between separator lines.`,
+      ...sorted.map(
+        (member) =>
+          `\n${SEPARATOR}\nFile: ${member.path}\n${SEPARATOR}\n${member.content}`,
+      ),
+    ].join('\n');
+    return {
+      path,
+      content,
+      size: Buffer.byteLength(content),
+      members: sorted.map((member) => member.path),
+      generated: true,
+    };
+  }
+}
@@ -0,0 +1,119 @@
+import type { GitChanges } from './gitManager';
+import type { FileContent } from './types';
+
+export const CHANGE_CONTEXT_FILE = '.claudesync-changes.md';
+
+// room kept for everything but the diff when capping the document
+const HEADER_RESERVE = 1024;
+
+/**
+ * Renders the current change as one document for code review questions: the commits
+ * since HEAD branched off the base, the touched files and the full diff. Untracked files
+ * are listed, but their content isn't part of the diff. Diffs of whole files are left
+ * out from the end to keep the document within maxSize bytes.
+ */
+export function buildChangeContext(
+  changes: GitChanges,
+  maxSize: number,
+): FileContent {
+  const head = changes.branch ?? 'HEAD';
+  const mergeBase = changes.mergeBase.slice(0, 8);
+  const untracked = changes.files.filter((f) => f.status === '?').length;
+
+  const fileList = [
+    '```text',
+    ...changes.files.map(({ status, path }) => `${status.padEnd(2)} ${path}`),
+    '```',
+  ];
+  const { diff, omitted } = capDiff(
+    changes.diff,
+    maxSize -
+      Buffer.byteLength(fileList.join('\n')) -
+      changes.commits.reduce(
+        (size, { message }) => size + Buffer.byteLength(message) + 16,
+        HEADER_RESERVE,
+      ),
+  );
+  const fence = codeFence(diff);
+
+  const content = [
+    `# Changes on ${head} against ${changes.base}`,
+    '',
+    `Generated by ClaudeSync. The diff compares the working tree, uncommitted changes included, with ${mergeBase}, where ${head} branched off ${changes.base}.${
+      untracked ? ` The ${untracked} untracked file(s) aren't part of it.` : ''
+    }${
+      changes.excluded
+        ? ` ${changes.excluded} changed file(s) excluded from syncing are left out.`
+        : ''
+    }`,
+    '',
+    `## Commits (${changes.commits.length})`,
+    '',
+    ...(changes.commits.length
+      ? changes.commits.map(
+          ({ hash, message }) =>
+            `- ${hash} ${message
+              .split('\n')
+              .map((line, i) => (i > 0 && line ? `  ${line}` : line))
+              .join('\n')}`,
+        )
+      : [`No commits since ${changes.base}, only uncommitted changes.`]),
+    '',
+    `## Files (${changes.files.length})`,
+    '',
+    ...fileList,
+    '',
+    '## Diff',
+    '',
+    ...(omitted
+      ? [
+          `The diffs of the last ${omitted} file(s) are left out to keep this document under ${maxSize} bytes.`,
+          '',
+        ]
+      : []),
+    `${fence}diff`,
+    diff.replace(/\n$/, ''),
+    fence,
+    '',
+  ].join('\n');
+  return {
+    path: CHANGE_CONTEXT_FILE,
+    content,
+    size: Buffer.byteLength(content),
+    generated: true,
+  };
+}
+
+// keeps the diffs of whole files while they fit in maxSize bytes
+function capDiff(
+  diff: string,
+  maxSize: number,
+): { diff: string; omitted: number } {
+  if (Buffer.byteLength(diff) <= maxSize) {
+    return { diff, omitted: 0 };
+  }
+  // content lines start with a space, + or -, so this only matches file headers
+  const sections = diff.split(/^(?=diff --git )/m);
+  let size = 0;
+  let kept = 0;
+  while (kept < sections.length) {
+    size += Buffer.byteLength(sections[kept]);
+    if (size > maxSize) {
+      break;
+    }
+    kept++;
+  }
+  return {
+    diff: sections.slice(0, kept).join(''),
+    omitted: sections.length - kept,
+  };
+}
+
+// a fence longer than any run of backticks in the diff, so it can't end early
+function codeFence(text: string): string {
+  const longest = (text.match(/`+/g) ?? []).reduce(
+    (max, run) => Math.max(max, run.length),
+    0,
+  );
+  return '`'.repeat(Math.max(3, longest + 1));
+}
@@ -1,4 +1,18 @@
 import type { ClaudeSyncConfig } from '../types';
+import {
+  AuthenticationError,
+  ClaudeApiError,
+  NetworkError,
+  NotFoundError,
+  RateLimitError,
+  ServerError,
+} from './errors';
+import {
+  DEFAULT_RETRY_POLICY,
+  isRetryable,
+  type RetryPolicy,
+  retryDelay,
+} from './retry';
 
 export interface Organization {
   id: string;
@@ -11,7 +25,28 @@ export interface Project {
   archived_at?: string;
 }
 
-interface FileDoc {
+export type Transport = (url: string, init: RequestInit) => Promise<Response>;
+
+export interface ClaudeClientOptions {
+  baseUrl?: string;
+  transport?: Transport;
+  // longest rate limit pause to sit out before failing the request instead
+  maxRateLimitWaitMs?: number;
+  retryPolicy?: RetryPolicy;
+  // receives requests, failed responses, rate limit pauses and retries, e.g. the
+  // extension's output channel
+  log?: (message: string) => void;
+}
+
+export const DEFAULT_API_BASE_URL = 'https://claude.ai/api';
+const DEFAULT_MAX_RATE_LIMIT_WAIT_MS = 5 * 60 * 1000;
+// rate limit pauses sat out for one request, counted apart from retries after failures
+const MAX_RATE_LIMIT_WAITS = 2;
+// longest response body written to the log
+const MAX_LOGGED_BODY = 500;
+const IDEMPOTENT_METHODS = new Set(['GET', 'PUT', 'DELETE']);
+
+export interface FileDoc {
   uuid: string;
   file_name: string;
   content: string;
@@ -31,20 +66,47 @@ interface ProjectResponse {
 }
 
 export class ClaudeClient {
-  private readonly baseUrl = 'https://claude.ai/api';
+  private readonly baseUrl: string;
   private readonly sessionToken: string;
+  private readonly transport: Transport;
+  private readonly maxRateLimitWaitMs: number;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly log: (message: string) => void;
+  // shared by all in-flight requests, so one 429 pauses every concurrent upload
+  private rateLimitedUntil = 0;
 
-  constructor(config: ClaudeSyncConfig) {
+  constructor(config: ClaudeSyncConfig, options: ClaudeClientOptions = {}) {
     this.sessionToken = config.sessionToken;
+    this.baseUrl = (
+      options.baseUrl ||
+      config.apiBaseUrl ||
+      DEFAULT_API_BASE_URL
+    ).replace(/\/+$/, '');
+    // resolve fetch lazily so tests can swap the global after construction
+    this.transport = options.transport ?? ((url, init) => fetch(url, init));
+    this.maxRateLimitWaitMs =
+      options.maxRateLimitWaitMs ?? DEFAULT_MAX_RATE_LIMIT_WAIT_MS;
+    this.retryPolicy = options.retryPolicy ?? DEFAULT_RETRY_POLICY;
+    this.log = options.log ?? (() => {});
   }
 
+  private async waitForRateLimit(): Promise<void> {
+    const delay = this.rateLimitedUntil - Date.now();
+    if (delay > 0) {
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+
+  /**
+   * Sends a request, pausing all requests on a rate limit that resets soon and
+   * retrying idempotent requests that failed with a retryable error.
+   */
   private async makeRequest<T>(
     method: string,
     endpoint: string,
     data?: Record<string, unknown>,
   ): Promise<T> {
     const url = `${this.baseUrl}${endpoint}`;
-    console.log(`Making ${method} request to ${url}`);
     const headers = new Headers({
       'User-Agent': 'Mozilla/5.0 (X11; Linux x86_64)',
       'Accept-Encoding': 'gzip',
@@ -54,21 +116,68 @@ export class ClaudeClient {
     if (data) {
       headers.set('Content-Type', 'application/json');
     }
+    const init: RequestInit = { method, headers };
+    if (data) {
+      init.body = JSON.stringify(data);
+    }
+
+    let attempt = 1;
+    let rateLimitWaits = 0;
+    for (;;) {
+      await this.waitForRateLimit();
+      try {
+        return await this.sendRequest<T>(url, init);
+      } catch (error) {
+        if (
+          error instanceof RateLimitError &&
+          error.resetsAt &&
+          rateLimitWaits < MAX_RATE_LIMIT_WAITS &&
+          error.resetsAt.getTime() - Date.now() <= this.maxRateLimitWaitMs
+        ) {
+          rateLimitWaits++;
+          this.log(
+            `Rate limited, pausing requests until ${error.resetsAt.toLocaleString()}`,
+          );
+          this.rateLimitedUntil = Math.max(
+            this.rateLimitedUntil,
+            error.resetsAt.getTime(),
+          );
+          continue;
+        }
+        // a failed POST may still have created the doc, so only the caller can retry it
+        if (
+          IDEMPOTENT_METHODS.has(method) &&
+          isRetryable(error) &&
+          attempt < this.retryPolicy.maxAttempts
+        ) {
+          const delay = retryDelay(attempt, this.retryPolicy);
+          this.log(
+            `${method} ${url} failed, retrying in ${delay}ms: ${error instanceof Error ? error.message : String(error)}`,
+          );
+          await new Promise((resolve) => setTimeout(resolve, delay));
+          attempt++;
+          continue;
+        }
+        if (IDEMPOTENT_METHODS.has(method) && error instanceof ClaudeApiError) {
+          error.retried = true;
+        }
+        throw error;
+      }
+    }
+  }
+
+  private async sendRequest<T>(url: string, init: RequestInit): Promise<T> {
+    this.log(`Making ${init.method} request to ${url}`);
     let response: Response;
     try {
-      const init: RequestInit = { method, headers };
-      if (data) {
-        init.body = JSON.stringify(data);
-      }
-      response = await fetch(url, init);
+      response = await this.transport(url, init);
     } catch (networkError) {
-      console.error('Network request failed:', networkError);
-      throw new Error(
+      throw new NetworkError(
         `Network request failed: ${networkError instanceof Error ? networkError.message : String(networkError)}`,
       );
     }
 
-    let responseData: any = null;
+    let responseData: unknown = null;
     try {
       responseData = await response.json();
     } catch {
@@ -79,32 +188,44 @@ export class ClaudeClient {
       }
     }
 
-    if (response.status === 403) {
-      console.error('Authentication failed - invalid session token');
-      console.error('Response data:', responseData);
-      throw new Error(
-        `Invalid session token or unauthorized access. Please make sure your token is correct and you're logged into claude.ai`,
+    if (response.status === 401 || response.status === 403) {
+      this.log(
+        `Authentication failed, invalid session token: ${formatBody(responseData)}`,
       );
+      throw new AuthenticationError(response.status);
     }
 
     if (response.status === 429) {
-      console.error('Rate limit exceeded', responseData);
-      const resetTimeRaw = responseData?.error?.message?.resetsAt;
-      const resetTime = resetTimeRaw ? new Date(resetTimeRaw) : null;
-      if (resetTime) {
-        throw new Error(
-          `Rate limit exceeded. Try again after ${resetTime.toLocaleString()}`,
-        );
-      } else {
-        throw new Error('Rate limit exceeded.');
-      }
+      this.log(`Rate limit exceeded: ${formatBody(responseData)}`);
+      const resetTimeRaw = getField(
+        responseData,
+        'error',
+        'message',
+        'resetsAt',
+      );
+      const resetTime =
+        typeof resetTimeRaw === 'string' || typeof resetTimeRaw === 'number'
+          ? new Date(resetTimeRaw)
+          : undefined;
+      throw new RateLimitError(
+        resetTime && !Number.isNaN(resetTime.getTime()) ? resetTime : undefined,
+      );
     }
 
     if (!response.ok) {
-      console.error(`API error ${response.status}:`, responseData);
-      throw new Error(
-        `API request failed (${response.status}): ${responseData?.error || response.statusText}`,
-      );
+      this.log(`API error ${response.status}: ${formatBody(responseData)}`);
+      // the API sends either a message or an object holding one
+      const detail =
+        getField(responseData, 'error', 'message') ??
+        getField(responseData, 'error');
+      const message = `API request failed (${response.status}): ${(typeof detail === 'string' && detail) || response.statusText}`;
+      if (response.status === 404) {
+        throw new NotFoundError(message);
+      }
+      if (response.status >= 500) {
+        throw new ServerError(message, response.status);
+      }
+      throw new ClaudeApiError(message, response.status);
     }
 
     return responseData as T;
@@ -243,3 +364,22 @@ export class ClaudeClient {
     );
   }
 }
+
+// a nested field of a JSON response, undefined wherever the shape differs
+function getField(data: unknown, ...path: string[]): unknown {
+  let value = data;
+  for (const key of path) {
+    if (typeof value !== 'object' || value === null) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+function formatBody(data: unknown): string {
+  const text = typeof data === 'string' ? data : String(JSON.stringify(data));
+  return text.length > MAX_LOGGED_BODY
+    ? `${text.slice(0, MAX_LOGGED_BODY)}…`
+    : text;
+}
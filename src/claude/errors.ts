@@ -0,0 +1,57 @@
+/**
+ * Base class for failed Claude API requests. `retryable` tells callers whether
+ * sending the same request again later can succeed.
+ */
+export class ClaudeApiError extends Error {
+  constructor(
+    message: string,
+    public readonly status?: number,
+    public readonly retryable = false,
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+
+  // set by ClaudeClient once it has retried the request itself, so callers don't again
+  public retried = false;
+}
+
+export class AuthenticationError extends ClaudeApiError {
+  constructor(status = 403) {
+    super(
+      `Invalid session token or unauthorized access. Please make sure your token is correct and you're logged into claude.ai`,
+      status,
+    );
+  }
+}
+
+export class RateLimitError extends ClaudeApiError {
+  constructor(public readonly resetsAt?: Date) {
+    // without a reset time backing off is our best guess, with one the caller should wait
+    super(
+      resetsAt
+        ? `Rate limit exceeded. Try again after ${resetsAt.toLocaleString()}`
+        : 'Rate limit exceeded.',
+      429,
+      !resetsAt,
+    );
+  }
+}
+
+export class NotFoundError extends ClaudeApiError {
+  constructor(message: string) {
+    super(message, 404);
+  }
+}
+
+export class ServerError extends ClaudeApiError {
+  constructor(message: string, status: number) {
+    super(message, status, true);
+  }
+}
+
+export class NetworkError extends ClaudeApiError {
+  constructor(message: string) {
+    super(message, undefined, true);
+  }
+}
@@ -0,0 +1,129 @@
+import * as assert from 'node:assert/strict';
+import { beforeEach, describe, it } from 'node:test';
+import type { ClaudeSyncConfig } from '../types';
+import { ClaudeClient, type ClaudeClientOptions } from './client';
+import { AuthenticationError, RateLimitError, ServerError } from './errors';
+import { MockClaudeServer } from './mockServer';
+
+// end-to-end scenarios of ClaudeClient against the mock API, run with `yarn test`
+const TOKEN = 'sk-ant-mock';
+const FAST_RETRIES = { maxAttempts: 3, baseDelayMs: 1, maxDelayMs: 5 };
+
+describe('ClaudeClient against MockClaudeServer', () => {
+  let server: MockClaudeServer;
+  let orgId: string;
+  let projectId: string;
+
+  const createClient = (
+    sessionToken = TOKEN,
+    options: ClaudeClientOptions = {},
+  ) =>
+    new ClaudeClient({ sessionToken } as ClaudeSyncConfig, {
+      baseUrl: 'http://mock/api',
+      transport: server.transport,
+      retryPolicy: FAST_RETRIES,
+      ...options,
+    });
+
+  beforeEach(() => {
+    server = new MockClaudeServer({ sessionToken: TOKEN });
+    orgId = server.addOrganization('Mock Organization');
+    projectId = server.addProject(orgId, 'Mock Project');
+  });
+
+  it('uploads files and lists them back', async () => {
+    const client = createClient();
+    await client.uploadFile(orgId, projectId, 'src/a.ts', 'const a = 1;\n');
+    await client.uploadFile(orgId, projectId, 'README.md', '# Mock\n');
+
+    const files = await client.listFiles(orgId, projectId);
+    assert.deepEqual(files.map((f) => f.file_name).sort(), [
+      'README.md',
+      'src/a.ts',
+    ]);
+    assert.equal(
+      files.find((f) => f.file_name === 'src/a.ts')?.content,
+      'const a = 1;\n',
+    );
+  });
+
+  it('deletes a file', async () => {
+    const client = createClient();
+    const doc = await client.uploadFile(orgId, projectId, 'a.txt', 'a');
+    await client.deleteFile(orgId, projectId, doc.uuid);
+    assert.deepEqual(server.getDocs(orgId, projectId), []);
+  });
+
+  it('updates the project instructions', async () => {
+    await createClient().updateProjectPromptTemplate(
+      orgId,
+      projectId,
+      'Be brief.',
+    );
+    assert.equal(server.getPromptTemplate(orgId, projectId), 'Be brief.');
+  });
+
+  it('fails a bad session token with a 403 without retrying', async () => {
+    await assert.rejects(
+      createClient('sk-ant-wrong').getOrganizations(),
+      AuthenticationError,
+    );
+    assert.equal(server.requests.length, 1);
+  });
+
+  it('pauses on a 429 that resets soon and then succeeds', async () => {
+    server.rateLimitNext(new Date(Date.now() + 50), 'GET /organizations');
+    const orgs = await createClient().getOrganizations();
+    assert.equal(orgs[0]?.id, orgId);
+    assert.equal(server.requests.length, 2);
+  });
+
+  it('fails a 429 that resets later than the client waits', async () => {
+    server.rateLimitNext(new Date(Date.now() + 60_000));
+    await assert.rejects(
+      createClient(TOKEN, { maxRateLimitWaitMs: 1000 }).getOrganizations(),
+      RateLimitError,
+    );
+  });
+
+  it('retries a failed GET and marks the final error as retried', async () => {
+    server.failNext({ status: 503, match: 'GET /organizations' });
+    assert.equal((await createClient().getOrganizations()).length, 1);
+
+    server.failNext({ status: 503, times: FAST_RETRIES.maxAttempts });
+    await assert.rejects(createClient().getOrganizations(), (error) => {
+      assert.ok(error instanceof ServerError);
+      assert.equal(error.retried, true);
+      return true;
+    });
+  });
+
+  it('counts rate limit pauses apart from retries', async () => {
+    server.rateLimitNext(new Date(Date.now() + 20), 'GET /organizations');
+    server.failNext({
+      status: 503,
+      times: FAST_RETRIES.maxAttempts - 1,
+      match: 'GET /organizations',
+    });
+    const log: string[] = [];
+    const orgs = await createClient(TOKEN, {
+      log: (message) => log.push(message),
+    }).getOrganizations();
+    assert.equal(orgs.length, 1);
+    assert.equal(server.requests.length, FAST_RETRIES.maxAttempts + 1);
+    assert.ok(log.some((line) => line.startsWith('Rate limit exceeded')));
+  });
+
+  it('leaves a failed upload for the caller to retry', async () => {
+    server.failNext({ status: 503, match: 'POST /organizations' });
+    await assert.rejects(
+      createClient().uploadFile(orgId, projectId, 'a.txt', 'a'),
+      (error) => {
+        assert.ok(error instanceof ServerError);
+        assert.equal(error.retried, false);
+        return true;
+      },
+    );
+    assert.deepEqual(server.getDocs(orgId, projectId), []);
+  });
+});
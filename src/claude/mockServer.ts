@@ -0,0 +1,395 @@
+import { randomUUID } from 'node:crypto';
+import * as http from 'node:http';
+import type { Transport } from './client';
+
+interface MockDoc {
+  uuid: string;
+  file_name: string;
+  content: string;
+  created_at: string;
+}
+
+interface MockProject {
+  uuid: string;
+  name: string;
+  description: string;
+  is_private: boolean;
+  prompt_template: string;
+  archived_at?: string;
+  docs: MockDoc[];
+}
+
+interface MockOrganization {
+  uuid: string;
+  name: string;
+  capabilities: string[];
+  projects: MockProject[];
+}
+
+export interface MockFault {
+  status: number;
+  body?: unknown;
+  // only fail requests matching this method and path prefix, e.g. 'POST /organizations'
+  match?: string;
+  // number of matching requests to fail, defaults to 1
+  times?: number;
+}
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  body?: Record<string, unknown>;
+}
+
+interface MockResponse {
+  status: number;
+  body?: unknown;
+}
+
+export interface MockClaudeServerOptions {
+  // when set, requests without a matching sessionKey cookie get a 403
+  sessionToken?: string;
+}
+
+/**
+ * In-memory stand-in for the subset of the claude.ai API that ClaudeClient uses.
+ * Use `transport` to plug it straight into a ClaudeClient, or `listen()` to serve
+ * it over HTTP and point the `claudesync.apiBaseUrl` setting at it.
+ */
+export class MockClaudeServer {
+  public readonly requests: MockRequest[] = [];
+  private organizations: MockOrganization[] = [];
+  private faults: MockFault[] = [];
+  private server?: http.Server;
+  private readonly sessionToken?: string;
+
+  constructor(options: MockClaudeServerOptions = {}) {
+    this.sessionToken = options.sessionToken;
+  }
+
+  public addOrganization(
+    name: string,
+    capabilities: string[] = ['chat', 'claude_pro'],
+  ): string {
+    const uuid = randomUUID();
+    this.organizations.push({ uuid, name, capabilities, projects: [] });
+    return uuid;
+  }
+
+  public addProject(organizationId: string, name: string): string {
+    const project = this.createProject(this.requireOrg(organizationId), {
+      name,
+    });
+    return project.uuid;
+  }
+
+  public addDoc(
+    organizationId: string,
+    projectId: string,
+    fileName: string,
+    content: string,
+  ): string {
+    const project = this.requireProject(organizationId, projectId);
+    return this.createDoc(project, fileName, content).uuid;
+  }
+
+  public getDocs(organizationId: string, projectId: string): MockDoc[] {
+    return [...this.requireProject(organizationId, projectId).docs];
+  }
+
+  public getPromptTemplate(organizationId: string, projectId: string): string {
+    return this.requireProject(organizationId, projectId).prompt_template;
+  }
+
+  public failNext(fault: MockFault): void {
+    this.faults.push({ times: 1, ...fault });
+  }
+
+  public rateLimitNext(resetsAt: Date, match?: string): void {
+    this.failNext({
+      status: 429,
+      match,
+      body: {
+        type: 'error',
+        error: {
+          type: 'rate_limit_error',
+          message: { resetsAt: resetsAt.toISOString() },
+        },
+      },
+    });
+  }
+
+  public reset(): void {
+    this.organizations = [];
+    this.faults = [];
+    this.requests.length = 0;
+  }
+
+  public readonly transport: Transport = async (url, init) => {
+    const { pathname } = new URL(url);
+    const headers = new Headers(init.headers);
+    const result = this.handle(
+      init.method || 'GET',
+      pathname.replace(/^\/api/, ''),
+      headers.get('Cookie') || '',
+      typeof init.body === 'string' ? init.body : undefined,
+    );
+    return new Response(
+      result.body === undefined ? null : JSON.stringify(result.body),
+      {
+        status: result.status,
+        headers: { 'Content-Type': 'application/json' },
+      },
+    );
+  };
+
+  public listen(port = 0, host = '127.0.0.1'): Promise<string> {
+    return new Promise((resolve, reject) => {
+      this.server = http.createServer((req, res) => {
+        const chunks: Buffer[] = [];
+        req.on('data', (chunk: Buffer) => chunks.push(chunk));
+        req.on('end', () => {
+          const { pathname } = new URL(req.url || '/', `http://${host}`);
+          const result = this.handle(
+            req.method || 'GET',
+            pathname.replace(/^\/api/, ''),
+            req.headers.cookie || '',
+            chunks.length ? Buffer.concat(chunks).toString('utf8') : undefined,
+          );
+          res.writeHead(result.status, {
+            'Content-Type': 'application/json',
+          });
+          res.end(
+            result.body === undefined ? undefined : JSON.stringify(result.body),
+          );
+        });
+      });
+      this.server.once('error', reject);
+      this.server.listen(port, host, () => {
+        const address = this.server?.address();
+        if (!address || typeof address === 'string') {
+          reject(new Error('Mock server failed to bind'));
+          return;
+        }
+        resolve(`http://${host}:${address.port}/api`);
+      });
+    });
+  }
+
+  public close(): Promise<void> {
+    return new Promise((resolve) => {
+      if (!this.server) {
+        resolve();
+        return;
+      }
+      this.server.close(() => resolve());
+      this.server = undefined;
+    });
+  }
+
+  private handle(
+    method: string,
+    path: string,
+    cookie: string,
+    rawBody?: string,
+  ): MockResponse {
+    let body: Record<string, unknown> | undefined;
+    if (rawBody) {
+      try {
+        body = JSON.parse(rawBody);
+      } catch {
+        return this.error(400, 'Invalid JSON body');
+      }
+    }
+    this.requests.push({ method, path, body });
+
+    if (
+      this.sessionToken &&
+      !cookie.includes(`sessionKey=${this.sessionToken}`)
+    ) {
+      return this.error(403, 'Invalid authorization');
+    }
+
+    const fault = this.takeFault(method, path);
+    if (fault) {
+      return { status: fault.status, body: fault.body };
+    }
+
+    return this.route(method, path.split('/').filter(Boolean), body || {});
+  }
+
+  private route(
+    method: string,
+    segments: string[],
+    body: Record<string, unknown>,
+  ): MockResponse {
+    const [root, orgId, projectsSegment, projectId, docsSegment, docId] =
+      segments;
+    if (root !== 'organizations') {
+      return this.error(404, 'Not found');
+    }
+
+    if (!orgId) {
+      return method === 'GET'
+        ? { status: 200, body: this.organizations.map(toOrganizationBody) }
+        : this.error(405, 'Method not allowed');
+    }
+
+    const org = this.organizations.find((o) => o.uuid === orgId);
+    if (!org || projectsSegment !== 'projects') {
+      return this.error(404, 'Organization not found');
+    }
+
+    if (!projectId) {
+      if (method === 'GET') {
+        return { status: 200, body: org.projects.map(toProjectBody) };
+      }
+      if (method === 'POST') {
+        return {
+          status: 201,
+          body: toProjectBody(this.createProject(org, body)),
+        };
+      }
+      return this.error(405, 'Method not allowed');
+    }
+
+    const project = org.projects.find((p) => p.uuid === projectId);
+    if (!project) {
+      return this.error(404, 'Project not found');
+    }
+
+    if (!docsSegment) {
+      if (method === 'PUT') {
+        if (typeof body.prompt_template === 'string') {
+          project.prompt_template = body.prompt_template;
+        }
+        return { status: 200, body: toProjectBody(project) };
+      }
+      return method === 'GET'
+        ? { status: 200, body: toProjectBody(project) }
+        : this.error(405, 'Method not allowed');
+    }
+
+    if (docsSegment !== 'docs') {
+      return this.error(404, 'Not found');
+    }
+
+    if (!docId) {
+      if (method === 'GET') {
+        return { status: 200, body: project.docs };
+      }
+      if (method === 'POST') {
+        if (
+          typeof body.file_name !== 'string' ||
+          typeof body.content !== 'string'
+        ) {
+          return this.error(400, 'file_name and content are required');
+        }
+        return {
+          status: 201,
+          body: this.createDoc(project, body.file_name, body.content),
+        };
+      }
+      return this.error(405, 'Method not allowed');
+    }
+
+    const index = project.docs.findIndex((d) => d.uuid === docId);
+    if (index === -1) {
+      return this.error(404, 'Document not found');
+    }
+    if (method === 'DELETE') {
+      project.docs.splice(index, 1);
+      return { status: 204 };
+    }
+    return method === 'GET'
+      ? { status: 200, body: project.docs[index] }
+      : this.error(405, 'Method not allowed');
+  }
+
+  private takeFault(method: string, path: string): MockFault | undefined {
+    const request = `${method} ${path}`;
+    const index = this.faults.findIndex(
+      (f) => !f.match || request.startsWith(f.match),
+    );
+    if (index === -1) {
+      return undefined;
+    }
+    const fault = this.faults[index];
+    fault.times = (fault.times ?? 1) - 1;
+    if (fault.times <= 0) {
+      this.faults.splice(index, 1);
+    }
+    return fault;
+  }
+
+  private createProject(
+    org: MockOrganization,
+    body: Record<string, unknown>,
+  ): MockProject {
+    const project: MockProject = {
+      uuid: randomUUID(),
+      name: String(body.name ?? 'Untitled'),
+      description: String(body.description ?? ''),
+      is_private: body.is_private !== false,
+      prompt_template: '',
+      docs: [],
+    };
+    org.projects.push(project);
+    return project;
+  }
+
+  private createDoc(
+    project: MockProject,
+    fileName: string,
+    content: string,
+  ): MockDoc {
+    const doc: MockDoc = {
+      uuid: randomUUID(),
+      file_name: fileName,
+      content,
+      created_at: new Date().toISOString(),
+    };
+    project.docs.push(doc);
+    return doc;
+  }
+
+  private requireOrg(organizationId: string): MockOrganization {
+    const org = this.organizations.find((o) => o.uuid === organizationId);
+    if (!org) {
+      throw new Error(`Unknown organization ${organizationId}`);
+    }
+    return org;
+  }
+
+  private requireProject(
+    organizationId: string,
+    projectId: string,
+  ): MockProject {
+    const project = this.requireOrg(organizationId).projects.find(
+      (p) => p.uuid === projectId,
+    );
+    if (!project) {
+      throw new Error(`Unknown project ${projectId}`);
+    }
+    return project;
+  }
+
+  private error(status: number, message: string): MockResponse {
+    return { status, body: { type: 'error', error: { message } } };
+  }
+}
+
+function toOrganizationBody(org: MockOrganization) {
+  return { uuid: org.uuid, name: org.name, capabilities: org.capabilities };
+}
+
+function toProjectBody(project: MockProject) {
+  return {
+    uuid: project.uuid,
+    name: project.name,
+    description: project.description,
+    is_private: project.is_private,
+    prompt_template: project.prompt_template,
+    archived_at: project.archived_at,
+  };
+}
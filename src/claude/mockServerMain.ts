@@ -0,0 +1,14 @@
+import { MockClaudeServer } from './mockServer';
+
+// entry point for `yarn mock-server`, kept separate so importing the mock never starts it
+const port = Number.parseInt(process.env.CLAUDESYNC_MOCK_PORT || '8787');
+const sessionToken = process.env.CLAUDESYNC_MOCK_TOKEN || 'sk-ant-mock';
+const server = new MockClaudeServer({ sessionToken });
+const orgId = server.addOrganization('Mock Organization');
+
+server.listen(port).then((baseUrl) => {
+  console.log(`Mock Claude API listening on ${baseUrl}`);
+  console.log(`Organization: ${orgId}`);
+  console.log(`Session token: ${sessionToken}`);
+  console.log(`Set "claudesync.apiBaseUrl" to "${baseUrl}" to use it.`);
+});
@@ -0,0 +1,55 @@
+import { ClaudeApiError } from './errors';
+
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 5,
+  baseDelayMs: 1000,
+  maxDelayMs: 30_000,
+};
+
+export function isRetryable(error: unknown): boolean {
+  return error instanceof ClaudeApiError && error.retryable && !error.retried;
+}
+
+/**
+ * Exponential backoff with jitter: half of the delay is fixed, the other half random,
+ * so concurrent callers that failed together don't retry in lockstep.
+ */
+export function retryDelay(
+  attempt: number,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+): number {
+  const cap = Math.min(
+    policy.maxDelayMs,
+    policy.baseDelayMs * 2 ** Math.max(0, attempt - 1),
+  );
+  return Math.round(cap / 2 + Math.random() * (cap / 2));
+}
+
+/**
+ * Runs operation until it succeeds, throws an error that isn't retryable, or the
+ * policy runs out of attempts. onRetry is called before each wait.
+ */
+export async function withRetry<T>(
+  operation: (attempt: number) => Promise<T>,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  onRetry?: (error: unknown, attempt: number, delayMs: number) => void,
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (!isRetryable(error) || attempt >= policy.maxAttempts) {
+        throw error;
+      }
+      const delay = retryDelay(attempt, policy);
+      onRetry?.(error, attempt, delay);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+  }
+}
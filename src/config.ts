@@ -1,4 +1,5 @@
 import * as vscode from 'vscode';
+import { DEFAULT_API_BASE_URL } from './claude/client';
 import { GitManager } from './gitManager';
 import type { ClaudeSyncConfig, GlobalConfig, WorkspaceConfig } from './types';
 
@@ -7,9 +8,18 @@ export class ConfigManager {
   private gitManager: GitManager;
   private outputChannel: vscode.OutputChannel;
   private cachedConfig: ClaudeSyncConfig | null = null;
-
-  constructor(outputChannel: vscode.OutputChannel) {
+  public readonly workspaceFolder?: vscode.WorkspaceFolder;
+
+  /**
+   * Workspace settings are read from and saved to the given folder's .vscode directory.
+   * Without a folder only the global settings are available.
+   */
+  constructor(
+    outputChannel: vscode.OutputChannel,
+    workspaceFolder?: vscode.WorkspaceFolder,
+  ) {
     this.outputChannel = outputChannel;
+    this.workspaceFolder = workspaceFolder;
     this.gitManager = new GitManager(outputChannel);
   }
 
@@ -23,7 +33,8 @@ export class ConfigManager {
     }
     const globalConfig = this.getGlobalConfig();
     const workspaceConfig = await this.getWorkspaceConfig();
-    this.cachedConfig = { ...globalConfig, ...workspaceConfig };
+    // claudesync.json comes with the repository and must not override global settings
+    this.cachedConfig = { ...workspaceConfig, ...globalConfig };
     return this.cachedConfig;
   }
 
@@ -32,6 +43,10 @@ export class ConfigManager {
     return {
       sessionToken: config.get('sessionToken') || '',
       addToGitignore: config.get('addToGitignore') || true,
+      // only the user's own settings, a workspace could send the session key anywhere
+      apiBaseUrl:
+        config.inspect<string>('apiBaseUrl')?.globalValue ||
+        DEFAULT_API_BASE_URL,
     };
   }
 
@@ -46,7 +61,7 @@ export class ConfigManager {
   public async saveWorkspaceConfig(
     config: Partial<WorkspaceConfig>,
   ): Promise<void> {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    const workspaceFolder = this.workspaceFolder;
     if (!workspaceFolder) {
       throw new Error('No workspace folder found');
     }
@@ -71,7 +86,7 @@ export class ConfigManager {
         configPath,
         Buffer.from(JSON.stringify(newConfig, null, 2), 'utf8'),
       );
-      await this.gitManager.ensureGitIgnore();
+      await this.gitManager.ensureGitIgnore(workspaceFolder);
       this.cachedConfig = null;
     } catch (error) {
       this.outputChannel.appendLine(
@@ -86,7 +101,7 @@ export class ConfigManager {
     await vscodeConfig.update('sessionToken', undefined, true);
     this.cachedConfig = null;
 
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    const workspaceFolder = this.workspaceFolder;
     if (workspaceFolder) {
       const configPath = vscode.Uri.joinPath(
         workspaceFolder.uri,
@@ -102,7 +117,7 @@ export class ConfigManager {
   }
 
   private async getWorkspaceConfig(): Promise<WorkspaceConfig> {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    const workspaceFolder = this.workspaceFolder;
     if (!workspaceFolder) {
       return this.getDefaultWorkspaceConfig();
     }
@@ -126,14 +141,33 @@ export class ConfigManager {
   }
 
   private getDefaultWorkspaceConfig(): WorkspaceConfig {
-    const config = vscode.workspace.getConfiguration('claudesync');
+    const config = vscode.workspace.getConfiguration(
+      'claudesync',
+      this.workspaceFolder?.uri,
+    );
     return {
       excludePatterns: config.get('excludePatterns') || [],
       maxFileSize: config.get('maxFileSize') || 2097152, // 2MB
+      treatAsText: config.get('treatAsText') || [],
+      lineEndings: config.get('lineEndings') || 'preserve',
+      secretScanning: config.get('secretScanning') || 'prompt',
+      transforms: config.get('transforms') || [],
+      knowledgeBudget: config.get('knowledgeBudget') ?? 200000,
+      knowledgeBudgetAction: config.get('knowledgeBudgetAction') || 'warn',
+      priorityRules: config.get('priorityRules') || [],
+      bundleMode: config.get('bundleMode') || 'off',
+      bundleGroups: config.get('bundleGroups') || [],
+      bundleMaxFileSize: config.get('bundleMaxFileSize') || 16384,
+      repoMap: config.get('repoMap') || false,
+      incrementalSync: config.get('incrementalSync') || false,
+      branchProjects: config.get('branchProjects') || [],
       autoSync: config.get('autoSync') || false,
       autoSyncDelay: config.get('autoSyncInterval') || 30,
       syncOnStartup: config.get('syncOnStartup') || false,
       cleanupRemoteFiles: config.get('cleanupRemoteFiles') || false,
+      manifestMaxAge: config.get('manifestMaxAge') || 3600,
+      detectConflicts: config.get('detectConflicts') ?? true,
+      uploadConcurrency: config.get('uploadConcurrency') || 4,
     };
   }
 }
@@ -0,0 +1,64 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { hasConflictMarkers, mergeThreeWay } from './conflictResolver';
+
+describe('mergeThreeWay', () => {
+  const base = 'one\ntwo\nthree\nfour\n';
+
+  it('takes changes made on either side to different lines', () => {
+    const merged = mergeThreeWay(
+      'ONE\ntwo\nthree\nfour\n',
+      'one\ntwo\nthree\nFOUR\n',
+      base,
+    );
+    assert.deepEqual(merged, {
+      content: 'ONE\ntwo\nthree\nFOUR\n',
+      conflicts: 0,
+    });
+  });
+
+  it('takes the same edit made on both sides once', () => {
+    const edited = 'one\nTWO\nthree\nfour\n';
+    assert.deepEqual(mergeThreeWay(edited, edited, base), {
+      content: edited,
+      conflicts: 0,
+    });
+  });
+
+  it('marks lines changed differently on both sides', () => {
+    const { content, conflicts } = mergeThreeWay(
+      'one\nlocal\nthree\nfour\n',
+      'one\nremote\nthree\nfour\n',
+      base,
+    );
+    assert.equal(conflicts, 1);
+    assert.equal(hasConflictMarkers(content), true);
+    assert.match(content, /^<<<<<<< local\nlocal\n/m);
+    assert.match(content, /^remote\n>>>>>>> claude$/m);
+  });
+
+  it('marks the whole file without a base', () => {
+    const { content, conflicts } = mergeThreeWay('a\n', 'b\n', undefined);
+    assert.equal(conflicts, 1);
+    assert.equal(hasConflictMarkers(content), true);
+  });
+
+  it('keeps CRLF line endings of the local file', () => {
+    const { content } = mergeThreeWay(
+      'ONE\r\ntwo\r\nthree\r\nfour\r\n',
+      'one\ntwo\nthree\nFOUR\n',
+      base,
+    );
+    assert.equal(content, 'ONE\r\ntwo\r\nthree\r\nFOUR\r\n');
+  });
+});
+
+describe('hasConflictMarkers', () => {
+  it('only matches a complete conflict block', () => {
+    assert.equal(hasConflictMarkers('<<<<<<< local\na\n'), false);
+    assert.equal(
+      hasConflictMarkers('<<<<<<< local\na\n=======\nb\n>>>>>>> claude\n'),
+      true,
+    );
+  });
+});
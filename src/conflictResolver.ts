@@ -0,0 +1,239 @@
+import * as vscode from 'vscode';
+
+export interface SyncConflict {
+  path: string;
+  localUri: vscode.Uri;
+  local: string;
+  remote: string;
+  base?: string;
+  // set when the remote version can't be written to the local file, so only keeping it is offered
+  localOnly?: string;
+}
+
+export type ConflictResolution = 'local' | 'remote' | 'merge' | 'skip';
+
+// above this many line comparisons we give up on a line merge and mark the whole file
+const MAX_MERGE_CELLS = 4_000_000;
+
+/**
+ * Shows conflicting local and remote versions in the diff editor and asks which one
+ * should win. Remote and base contents are served read-only from memory.
+ */
+export class ConflictResolver {
+  public static readonly SCHEME = 'claudesync';
+  private static contents = new Map<string, string>();
+
+  public static register(): vscode.Disposable {
+    return vscode.workspace.registerTextDocumentContentProvider(
+      ConflictResolver.SCHEME,
+      {
+        provideTextDocumentContent: (uri) =>
+          ConflictResolver.contents.get(uri.toString()) ?? '',
+      },
+    );
+  }
+
+  public static virtualUri(
+    label: 'remote' | 'base',
+    path: string,
+    content: string,
+  ): vscode.Uri {
+    const uri = vscode.Uri.from({
+      scheme: ConflictResolver.SCHEME,
+      path: `/${label}/${path}`,
+    });
+    ConflictResolver.contents.set(uri.toString(), content);
+    return uri;
+  }
+
+  public async resolve(conflict: SyncConflict): Promise<ConflictResolution> {
+    const remoteUri = ConflictResolver.virtualUri(
+      'remote',
+      conflict.path,
+      conflict.remote,
+    );
+    const baseUri =
+      conflict.base !== undefined
+        ? ConflictResolver.virtualUri('base', conflict.path, conflict.base)
+        : undefined;
+
+    try {
+      await vscode.commands.executeCommand(
+        'vscode.diff',
+        remoteUri,
+        conflict.localUri,
+        `${conflict.path}: Claude ↔ Local`,
+      );
+
+      while (true) {
+        const options = conflict.localOnly
+          ? ['Keep Local']
+          : ['Keep Local', 'Keep Remote', 'Merge'];
+        if (baseUri) {
+          options.push('Compare with Base');
+        }
+        const choice = await vscode.window.showWarningMessage(
+          `'${conflict.path}' was changed both locally and on Claude since the last sync.${
+            conflict.localOnly
+              ? ` Claude's version can't be written to the local file because ${conflict.localOnly}.`
+              : ''
+          }`,
+          { modal: true },
+          ...options,
+        );
+
+        if (choice === 'Compare with Base' && baseUri) {
+          await vscode.commands.executeCommand(
+            'vscode.diff',
+            baseUri,
+            remoteUri,
+            `${conflict.path}: Base ↔ Claude`,
+          );
+          continue;
+        }
+
+        switch (choice) {
+          case 'Keep Local':
+            return 'local';
+          case 'Keep Remote':
+            return 'remote';
+          case 'Merge':
+            return 'merge';
+          default:
+            return 'skip';
+        }
+      }
+    } finally {
+      ConflictResolver.contents.delete(remoteUri.toString());
+      if (baseUri) {
+        ConflictResolver.contents.delete(baseUri.toString());
+      }
+    }
+  }
+}
+
+/**
+ * Line-based three-way merge. Hunks changed on only one side are taken as-is; hunks
+ * changed differently on both sides are wrapped in git-style conflict markers.
+ */
+export function mergeThreeWay(
+  local: string,
+  remote: string,
+  base: string | undefined,
+): { content: string; conflicts: number } {
+  const eol = local.includes('\r\n') ? '\r\n' : '\n';
+  const localLines = local.split(/\r?\n/);
+  const remoteLines = remote.split(/\r?\n/);
+  const baseLines = base !== undefined ? base.split(/\r?\n/) : [];
+
+  if (
+    base === undefined ||
+    baseLines.length * Math.max(localLines.length, remoteLines.length) >
+      MAX_MERGE_CELLS
+  ) {
+    return {
+      content: conflictBlock(localLines, baseLines, remoteLines).join(eol),
+      conflicts: 1,
+    };
+  }
+
+  const toLocal = matchLines(baseLines, localLines);
+  const toRemote = matchLines(baseLines, remoteLines);
+  const result: string[] = [];
+  let conflicts = 0;
+  let b = 0;
+  let l = 0;
+  let r = 0;
+
+  while (b <= baseLines.length) {
+    // find the next base line kept unchanged on both sides
+    let next = b;
+    while (
+      next < baseLines.length &&
+      (toLocal[next] === -1 || toRemote[next] === -1)
+    ) {
+      next++;
+    }
+    const lEnd = next < baseLines.length ? toLocal[next] : localLines.length;
+    const rEnd = next < baseLines.length ? toRemote[next] : remoteLines.length;
+
+    const baseChunk = baseLines.slice(b, next);
+    const localChunk = localLines.slice(l, lEnd);
+    const remoteChunk = remoteLines.slice(r, rEnd);
+
+    if (sameLines(localChunk, baseChunk)) {
+      result.push(...remoteChunk);
+    } else if (
+      sameLines(remoteChunk, baseChunk) ||
+      sameLines(localChunk, remoteChunk)
+    ) {
+      result.push(...localChunk);
+    } else {
+      result.push(...conflictBlock(localChunk, baseChunk, remoteChunk));
+      conflicts++;
+    }
+
+    if (next >= baseLines.length) {
+      break;
+    }
+    result.push(baseLines[next]);
+    b = next + 1;
+    l = lEnd + 1;
+    r = rEnd + 1;
+  }
+
+  return { content: result.join(eol), conflicts };
+}
+
+export function hasConflictMarkers(content: string): boolean {
+  return /^<<<<<<< local$[\s\S]*^>>>>>>> claude$/m.test(content);
+}
+
+function conflictBlock(
+  local: string[],
+  base: string[],
+  remote: string[],
+): string[] {
+  return [
+    '<<<<<<< local',
+    ...local,
+    '||||||| base',
+    ...base,
+    '=======',
+    ...remote,
+    '>>>>>>> claude',
+  ];
+}
+
+function sameLines(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((line, i) => line === b[i]);
+}
+
+// maps each line of `from` to its index in `to` along a longest common subsequence, or -1
+function matchLines(from: string[], to: string[]): number[] {
+  const rows = from.length + 1;
+  const cols = to.length + 1;
+  const lengths = new Uint32Array(rows * cols);
+  for (let i = from.length - 1; i >= 0; i--) {
+    for (let j = to.length - 1; j >= 0; j--) {
+      lengths[i * cols + j] =
+        from[i] === to[j]
+          ? lengths[(i + 1) * cols + j + 1] + 1
+          : Math.max(lengths[(i + 1) * cols + j], lengths[i * cols + j + 1]);
+    }
+  }
+
+  const mapping = new Array<number>(from.length).fill(-1);
+  let i = 0;
+  let j = 0;
+  while (i < from.length && j < to.length) {
+    if (from[i] === to[j]) {
+      mapping[i++] = j++;
+    } else if (lengths[(i + 1) * cols + j] >= lengths[i * cols + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return mapping;
+}
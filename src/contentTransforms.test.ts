@@ -0,0 +1,59 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { ContentTransformer } from './contentTransforms';
+
+describe('ContentTransformer', () => {
+  it('only applies to paths its rules match', () => {
+    const transformer = new ContentTransformer([
+      { files: 'src/**/*.ts', apply: ['stripComments'] },
+    ]);
+    assert.equal(transformer.appliesTo('src/a/b.ts'), true);
+    assert.equal(transformer.appliesTo('test/b.ts'), false);
+    assert.deepEqual(transformer.transform('test/b.ts', '// a\nb'), {
+      text: '// a\nb',
+      applied: [],
+    });
+  });
+
+  it('strips comments but keeps markers inside strings', () => {
+    const transformer = new ContentTransformer([
+      { files: '*.ts', apply: ['stripComments'] },
+    ]);
+    const { text, applied } = transformer.transform(
+      'a.ts',
+      "// header\nconst url = 'http://x'; // trailing\n/* block */\nlet b;\n",
+    );
+    assert.equal(text, "const url = 'http://x';\nlet b;\n");
+    assert.deepEqual(applied, ['stripComments']);
+  });
+
+  it('strips a license header and keeps the shebang', () => {
+    const transformer = new ContentTransformer([
+      { files: '*.sh', apply: ['stripLicenseHeader'] },
+    ]);
+    assert.equal(
+      transformer.transform(
+        'run.sh',
+        '#!/bin/sh\n# Copyright 2024 Someone\n# MIT License\n\necho hi\n',
+      ).text,
+      '#!/bin/sh\necho hi\n',
+    );
+    assert.deepEqual(
+      transformer.transform('run.sh', '# usage: run.sh\necho hi\n').applied,
+      [],
+    );
+  });
+
+  it('combines matching rules in a fixed order', () => {
+    const transformer = new ContentTransformer([
+      { files: '*.md', apply: ['truncate'], maxLines: 2 },
+      { files: 'notes.md', apply: ['collapseWhitespace'] },
+    ]);
+    const { text, applied } = transformer.transform(
+      'notes.md',
+      'one  \n\n\n\ntwo\nthree\n',
+    );
+    assert.deepEqual(applied, ['collapseWhitespace', 'truncate']);
+    assert.equal(text, 'one\n\n[truncated 2 more lines]\n');
+  });
+});
@@ -0,0 +1,281 @@
+import ignore from 'ignore';
+import type { ContentTransform, TransformRule } from './types';
+
+interface CommentSyntax {
+  line?: string;
+  block?: [string, string];
+  // quote characters that start strings, so comment markers inside them are kept
+  quotes: string[];
+}
+
+const C_STYLE: CommentSyntax = {
+  line: '//',
+  block: ['/*', '*/'],
+  quotes: ['"', "'", '`'],
+};
+const HASH_STYLE: CommentSyntax = { line: '#', quotes: ['"', "'"] };
+const DASH_STYLE: CommentSyntax = { line: '--', quotes: ["'", '"'] };
+const MARKUP_STYLE: CommentSyntax = { block: ['<!--', '-->'], quotes: [] };
+const CSS_STYLE: CommentSyntax = { block: ['/*', '*/'], quotes: ['"', "'"] };
+
+const COMMENT_SYNTAX: Record<string, CommentSyntax> = {
+  ...Object.fromEntries(
+    [
+      'js',
+      'jsx',
+      'mjs',
+      'cjs',
+      'ts',
+      'tsx',
+      'mts',
+      'cts',
+      'java',
+      'kt',
+      'kts',
+      'scala',
+      'c',
+      'h',
+      'cc',
+      'cpp',
+      'hpp',
+      'cs',
+      'go',
+      'rs',
+      'swift',
+      'dart',
+      'php',
+      'scss',
+      'less',
+      'jsonc',
+    ].map((ext) => [ext, C_STYLE]),
+  ),
+  ...Object.fromEntries(
+    ['py', 'rb', 'sh', 'bash', 'zsh', 'yaml', 'yml', 'toml', 'r', 'pl'].map(
+      (ext) => [ext, HASH_STYLE],
+    ),
+  ),
+  ...Object.fromEntries(['sql', 'lua', 'hs'].map((ext) => [ext, DASH_STYLE])),
+  ...Object.fromEntries(
+    ['html', 'htm', 'xml', 'vue', 'svelte', 'md'].map((ext) => [
+      ext,
+      MARKUP_STYLE,
+    ]),
+  ),
+  css: CSS_STYLE,
+};
+
+const LICENSE_MARKERS = /copyright|license|licensed|spdx-license-identifier/i;
+const DEFAULT_MAX_LINES = 200;
+
+// transforms run in this order regardless of how a rule lists them
+const TRANSFORM_ORDER: ContentTransform[] = [
+  'stripLicenseHeader',
+  'stripComments',
+  'collapseWhitespace',
+  'truncate',
+];
+
+/**
+ * Applies the transforms configured for a file's path before it is uploaded, so less
+ * project knowledge is spent on license headers, comments and generated code. Rules
+ * match paths with gitignore syntax, like excludePatterns, and add up when several
+ * match the same file.
+ */
+export class ContentTransformer {
+  private rules: { matcher: ReturnType<typeof ignore>; rule: TransformRule }[];
+
+  constructor(rules: TransformRule[]) {
+    this.rules = rules.map((rule) => ({
+      matcher: ignore().add(rule.files),
+      rule,
+    }));
+  }
+
+  // whether any rule matches the path, even if its transforms leave this text alone
+  public appliesTo(relativePath: string): boolean {
+    return this.rules.some(({ matcher }) => matcher.ignores(relativePath));
+  }
+
+  public transform(
+    relativePath: string,
+    text: string,
+  ): { text: string; applied: ContentTransform[] } {
+    const transforms = new Set<ContentTransform>();
+    let maxLines = DEFAULT_MAX_LINES;
+    for (const { matcher, rule } of this.rules) {
+      if (!matcher.ignores(relativePath)) {
+        continue;
+      }
+      for (const transform of rule.apply) {
+        transforms.add(transform);
+      }
+      maxLines = rule.maxLines ?? maxLines;
+    }
+
+    const syntax = commentSyntax(relativePath);
+    const applied: ContentTransform[] = [];
+    let result = text;
+    for (const transform of TRANSFORM_ORDER) {
+      if (!transforms.has(transform)) {
+        continue;
+      }
+      const next = applyTransform(transform, result, syntax, maxLines);
+      if (next !== result) {
+        applied.push(transform);
+        result = next;
+      }
+    }
+    return { text: result, applied };
+  }
+}
+
+function applyTransform(
+  transform: ContentTransform,
+  text: string,
+  syntax: CommentSyntax | undefined,
+  maxLines: number,
+): string {
+  switch (transform) {
+    case 'stripLicenseHeader':
+      return syntax ? stripLicenseHeader(text, syntax) : text;
+    case 'stripComments':
+      return syntax ? stripComments(text, syntax) : text;
+    case 'collapseWhitespace':
+      return collapseWhitespace(text);
+    case 'truncate':
+      return truncate(text, maxLines);
+  }
+}
+
+function commentSyntax(relativePath: string): CommentSyntax | undefined {
+  const name = relativePath.slice(relativePath.lastIndexOf('/') + 1);
+  const dot = name.lastIndexOf('.');
+  return dot > 0
+    ? COMMENT_SYNTAX[name.slice(dot + 1).toLowerCase()]
+    : undefined;
+}
+
+// removes the first comment of the file if it mentions a copyright or license
+function stripLicenseHeader(text: string, syntax: CommentSyntax): string {
+  // keep a shebang line
+  let shebang = 0;
+  if (text.startsWith('#!')) {
+    shebang = text.indexOf('\n') + 1;
+    if (!shebang) {
+      return text;
+    }
+  }
+  const body = text.slice(shebang);
+  const leading = body.length - body.trimStart().length;
+
+  let end = -1;
+  if (syntax.block && body.startsWith(syntax.block[0], leading)) {
+    const close = body.indexOf(
+      syntax.block[1],
+      leading + syntax.block[0].length,
+    );
+    end = close === -1 ? -1 : close + syntax.block[1].length;
+  } else if (syntax.line && body.startsWith(syntax.line, leading)) {
+    // a run of line comments
+    const lines = body.slice(leading).split('\n');
+    let count = 0;
+    while (
+      count < lines.length &&
+      syntax.line &&
+      lines[count].trimStart().startsWith(syntax.line)
+    ) {
+      count++;
+    }
+    end = leading + lines.slice(0, count).join('\n').length;
+  }
+
+  if (end === -1 || !LICENSE_MARKERS.test(body.slice(leading, end))) {
+    return text;
+  }
+  return text.slice(0, shebang) + body.slice(end).replace(/^\s*\n/, '');
+}
+
+/**
+ * Removes line and block comments outside of strings. Lines that held nothing but a
+ * comment are dropped entirely. Regular expression literals aren't recognized, so a
+ * comment marker inside one is treated as a comment.
+ */
+function stripComments(text: string, syntax: CommentSyntax): string {
+  const lines: string[] = [];
+  let line = '';
+  let lineHadComment = false;
+  let quote: string | undefined;
+
+  const endLine = () => {
+    if (!(lineHadComment && !line.trim())) {
+      lines.push(line.trimEnd());
+    }
+    line = '';
+    lineHadComment = false;
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\n') {
+        // only template literals span lines, other quotes were apostrophes in text
+        if (quote !== '`') {
+          quote = undefined;
+        }
+        lines.push(line);
+        line = '';
+        continue;
+      }
+      line += char;
+      if (char === '\\') {
+        line += text[++i] ?? '';
+      } else if (char === quote) {
+        quote = undefined;
+      }
+      continue;
+    }
+
+    if (syntax.line && text.startsWith(syntax.line, i)) {
+      const newline = text.indexOf('\n', i);
+      i = (newline === -1 ? text.length : newline) - 1;
+      lineHadComment = true;
+      continue;
+    }
+    if (syntax.block && text.startsWith(syntax.block[0], i)) {
+      const close = text.indexOf(syntax.block[1], i + syntax.block[0].length);
+      i = (close === -1 ? text.length : close + syntax.block[1].length) - 1;
+      lineHadComment = true;
+      continue;
+    }
+
+    if (char === '\n') {
+      endLine();
+      continue;
+    }
+    if (syntax.quotes.includes(char)) {
+      quote = char;
+    }
+    line += char;
+  }
+  endLine();
+  return lines.join('\n');
+}
+
+// trims trailing whitespace and collapses runs of blank lines into one
+function collapseWhitespace(text: string): string {
+  return text
+    .split('\n')
+    .map((line) => line.trimEnd())
+    .join('\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim()
+    .concat(text.endsWith('\n') ? '\n' : '');
+}
+
+function truncate(text: string, maxLines: number): string {
+  const lines = text.replace(/\n$/, '').split('\n');
+  if (lines.length <= maxLines) {
+    return text;
+  }
+  return `${lines.slice(0, maxLines).join('\n')}\n[truncated ${lines.length - maxLines} more lines]\n`;
+}
@@ -0,0 +1,63 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  decodeText,
+  detectEncoding,
+  detectUtf16,
+  normalizeLineEndings,
+  toDecoderLabel,
+} from './encoding';
+
+const bytes = (...values: number[]) => new Uint8Array(values);
+
+describe('detectEncoding', () => {
+  it('recognizes byte order marks', () => {
+    assert.equal(detectEncoding(bytes(0xef, 0xbb, 0xbf, 0x61)), 'utf-8');
+    assert.equal(detectEncoding(bytes(0xff, 0xfe, 0x61, 0)), 'utf-16le');
+    assert.equal(detectEncoding(bytes(0xfe, 0xff, 0, 0x61)), 'utf-16be');
+  });
+
+  it('recognizes UTF-16 without a byte order mark', () => {
+    const text = Buffer.from('hello world', 'utf16le');
+    assert.equal(detectUtf16(text), 'utf-16le');
+    assert.equal(detectUtf16(Buffer.from(text).swap16()), 'utf-16be');
+    assert.equal(detectUtf16(Buffer.from('hello world')), undefined);
+  });
+
+  it('prefers valid UTF-8 over the preferred encoding', () => {
+    assert.equal(detectEncoding(Buffer.from('café'), 'shiftjis'), 'utf-8');
+  });
+
+  it('falls back to the preferred encoding, then Windows-1252', () => {
+    const latin1 = bytes(0x63, 0x61, 0x66, 0xe9);
+    assert.equal(detectEncoding(latin1, 'iso885915'), 'iso-8859-15');
+    assert.equal(detectEncoding(latin1), 'windows-1252');
+    assert.equal(detectEncoding(latin1, 'utf8'), 'windows-1252');
+  });
+});
+
+describe('decodeText', () => {
+  it('decodes and drops the byte order mark', () => {
+    assert.deepEqual(decodeText(bytes(0xef, 0xbb, 0xbf, 0x61)), {
+      text: 'a',
+      encoding: 'utf-8',
+    });
+    assert.equal(decodeText(bytes(0x63, 0x61, 0x66, 0xe9)).text, 'café');
+  });
+});
+
+describe('toDecoderLabel', () => {
+  it('maps VS Code encoding ids to WHATWG labels', () => {
+    assert.equal(toDecoderLabel('utf8bom'), 'utf-8');
+    assert.equal(toDecoderLabel('windows1252'), 'windows-1252');
+    assert.equal(toDecoderLabel('shiftjis'), 'shift_jis');
+    assert.equal(toDecoderLabel('nonexistent'), undefined);
+  });
+});
+
+describe('normalizeLineEndings', () => {
+  it('converts CRLF and CR only when set to lf', () => {
+    assert.equal(normalizeLineEndings('a\r\nb\rc\n', 'lf'), 'a\nb\nc\n');
+    assert.equal(normalizeLineEndings('a\r\nb', 'preserve'), 'a\r\nb');
+  });
+});
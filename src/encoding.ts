@@ -0,0 +1,131 @@
+import type { LineEndings } from './types';
+
+export interface DecodedText {
+  text: string;
+  // WHATWG label of the encoding the text was decoded from
+  encoding: string;
+}
+
+// VS Code's files.encoding ids that don't map to a WHATWG label mechanically
+const VSCODE_ENCODINGS: Record<string, string> = {
+  utf8: 'utf-8',
+  utf8bom: 'utf-8',
+  utf16le: 'utf-16le',
+  utf16be: 'utf-16be',
+  shiftjis: 'shift_jis',
+  eucjp: 'euc-jp',
+  euckr: 'euc-kr',
+  big5hkscs: 'big5',
+  koi8r: 'koi8-r',
+  koi8u: 'koi8-u',
+  cp866: 'ibm866',
+  macroman: 'macintosh',
+};
+
+/**
+ * Maps an encoding id from VS Code's files.encoding setting to a label TextDecoder
+ * understands, or undefined if this runtime can't decode it.
+ */
+export function toDecoderLabel(encoding: string): string | undefined {
+  const label =
+    VSCODE_ENCODINGS[encoding] ??
+    encoding
+      .replace(/^windows(\d+)$/, 'windows-$1')
+      .replace(/^iso8859(\d+)$/, 'iso-8859-$1');
+  try {
+    return new TextDecoder(label).encoding;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Guesses the encoding of a file: a byte order mark wins, then the zero byte pattern of
+ * UTF-16 text, then valid UTF-8. Anything else is decoded with the preferred encoding,
+ * usually the editor's files.encoding, falling back to Windows-1252 which accepts any
+ * byte sequence.
+ */
+export function detectEncoding(
+  content: Uint8Array,
+  preferred?: string,
+): string {
+  if (startsWith(content, [0xef, 0xbb, 0xbf])) {
+    return 'utf-8';
+  }
+
+  const utf16 = detectUtf16(content);
+  if (utf16) {
+    return utf16;
+  }
+
+  try {
+    new TextDecoder('utf-8', { fatal: true }).decode(content);
+    return 'utf-8';
+  } catch {
+    // not UTF-8
+  }
+
+  const label = preferred ? toDecoderLabel(preferred) : undefined;
+  return label && label !== 'utf-8' ? label : 'windows-1252';
+}
+
+export function decodeText(
+  content: Uint8Array,
+  preferred?: string,
+): DecodedText {
+  const encoding = detectEncoding(content, preferred);
+  // TextDecoder strips a matching byte order mark
+  return { text: new TextDecoder(encoding).decode(content), encoding };
+}
+
+export function normalizeLineEndings(
+  text: string,
+  lineEndings: LineEndings,
+): string {
+  return lineEndings === 'lf' ? text.replace(/\r\n?/g, '\n') : text;
+}
+
+/**
+ * UTF-16 by its byte order mark or, without one, by the zero in every other byte that
+ * mostly ASCII text has. Binary detection would otherwise flag these files.
+ */
+export function detectUtf16(
+  content: Uint8Array,
+): 'utf-16le' | 'utf-16be' | undefined {
+  if (startsWith(content, [0xff, 0xfe])) {
+    return 'utf-16le';
+  }
+  if (startsWith(content, [0xfe, 0xff])) {
+    return 'utf-16be';
+  }
+
+  const length = Math.min(content.length, 1024) & ~1;
+  if (length < 4) {
+    return undefined;
+  }
+  let evenZeros = 0;
+  let oddZeros = 0;
+  for (let i = 0; i < length; i += 2) {
+    if (content[i] === 0) {
+      evenZeros++;
+    }
+    if (content[i + 1] === 0) {
+      oddZeros++;
+    }
+  }
+  const pairs = length / 2;
+  if (oddZeros > pairs * 0.4 && evenZeros < pairs * 0.05) {
+    return 'utf-16le';
+  }
+  if (evenZeros > pairs * 0.4 && oddZeros < pairs * 0.05) {
+    return 'utf-16be';
+  }
+  return undefined;
+}
+
+function startsWith(content: Uint8Array, bytes: number[]): boolean {
+  return (
+    content.length >= bytes.length &&
+    bytes.every((byte, i) => content[i] === byte)
+  );
+}
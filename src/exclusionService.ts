@@ -0,0 +1,255 @@
+import ignore from 'ignore';
+import type * as vscode from 'vscode';
+import { BinaryCache } from './binaryCache';
+import { detectUtf16 } from './encoding';
+import { GitignoreManager } from './gitignoreManager';
+import type { ExcludedFile, ExclusionReason, WorkspaceConfig } from './types';
+import { computeSHA256HashOfBytes } from './utils';
+
+export const EXCLUSION_LABELS: Record<ExclusionReason, string> = {
+  gitignore: '.gitignore',
+  claudesyncignore: '.claudesyncignore',
+  pattern: 'exclude pattern',
+  size: 'larger than maxFileSize',
+  binary: 'binary content',
+  secret: 'possible secrets',
+  budget: 'over the knowledge budget',
+  internal: "ClaudeSync's own state",
+};
+
+// files ClaudeSync keeps in the folder, never synced whatever .gitignore says; a
+// trailing slash marks a directory
+const INTERNAL_PATHS = [
+  '.vscode/claudesync.json',
+  '.vscode/claudesync.manifest.json',
+  '.vscode/claudesync.base/',
+  '.vscode/claudesync.binary.json',
+  '.vscode/claudesync.projects/',
+];
+
+// e.g. "'dist/' in packages/app/.gitignore" or "exclude pattern '*.lock'"
+export function describeExclusion(exclusion: ExcludedFile): string {
+  const { reason, detail } = exclusion;
+  if (!detail) {
+    return EXCLUSION_LABELS[reason];
+  }
+  switch (reason) {
+    case 'gitignore':
+    case 'claudesyncignore':
+      return detail;
+    case 'pattern':
+      return `exclude pattern '${detail}'`;
+    default:
+      return `${EXCLUSION_LABELS[reason]} (${detail})`;
+  }
+}
+
+type ExclusionConfig = Pick<
+  WorkspaceConfig,
+  'excludePatterns' | 'maxFileSize' | 'treatAsText'
+>;
+
+/**
+ * Decides whether a workspace file is synced, and why not. Path rules (ClaudeSync's own
+ * files, ignore files, then excludePatterns) are checked before reading a file, content
+ * rules (size, then binary detection unless treatAsText matches) once its bytes are
+ * known.
+ */
+export class ExclusionService {
+  private gitignoreManager: GitignoreManager;
+  private binaryCache: BinaryCache;
+  private outputChannel: vscode.OutputChannel;
+  private patterns = ignore();
+  private textPatterns = ignore();
+  private maxFileSize = Number.POSITIVE_INFINITY;
+  private loadedFolder?: string;
+
+  constructor(outputChannel: vscode.OutputChannel) {
+    this.outputChannel = outputChannel;
+    this.gitignoreManager = new GitignoreManager(outputChannel);
+    this.binaryCache = new BinaryCache(outputChannel);
+  }
+
+  /**
+   * Reads the folder's ignore files and binary verdicts and applies the config. They are
+   * only read again after invalidate() or for another folder, unless force is set.
+   */
+  public async load(
+    workspaceFolder: vscode.Uri,
+    config: ExclusionConfig,
+    force = false,
+  ): Promise<void> {
+    this.configure(config);
+    if (force || this.loadedFolder !== workspaceFolder.toString()) {
+      await this.gitignoreManager.loadGitignore(workspaceFolder);
+      await this.binaryCache.load(workspaceFolder);
+      this.loadedFolder = workspaceFolder.toString();
+    }
+  }
+
+  public invalidate(): void {
+    this.loadedFolder = undefined;
+  }
+
+  public configure(config: ExclusionConfig): void {
+    this.patterns = ignore().add(config.excludePatterns);
+    this.textPatterns = ignore().add(config.treatAsText);
+    this.maxFileSize = config.maxFileSize;
+  }
+
+  // persists binary verdicts collected since the last save
+  public async save(): Promise<void> {
+    await this.binaryCache.save();
+  }
+
+  public checkPath(relativePath: string): ExcludedFile | undefined {
+    const internal = INTERNAL_PATHS.find((path) =>
+      path.endsWith('/')
+        ? relativePath.startsWith(path)
+        : relativePath === path,
+    );
+    if (internal) {
+      return { path: relativePath, reason: 'internal', detail: internal };
+    }
+
+    const ignoreMatch = this.gitignoreManager.getIgnoreMatch(relativePath);
+    if (ignoreMatch) {
+      return {
+        path: relativePath,
+        reason: ignoreMatch.source,
+        detail: ignoreMatch.pattern
+          ? `'${ignoreMatch.pattern}' in ${ignoreMatch.file}`
+          : ignoreMatch.file,
+      };
+    }
+
+    const { ignored, rule } = this.patterns.test(relativePath);
+    if (ignored) {
+      return { path: relativePath, reason: 'pattern', detail: rule?.pattern };
+    }
+    return undefined;
+  }
+
+  public async checkContent(
+    relativePath: string,
+    content: Uint8Array,
+  ): Promise<ExcludedFile | undefined> {
+    if (content.byteLength > this.maxFileSize) {
+      return {
+        path: relativePath,
+        reason: 'size',
+        detail: `${content.byteLength} bytes, limit is ${this.maxFileSize}`,
+      };
+    }
+    if (this.textPatterns.ignores(relativePath)) {
+      return undefined;
+    }
+
+    const hash = await computeSHA256HashOfBytes(content);
+    const binary = this.binaryCache.has(hash) || isBinaryContent(content);
+    this.binaryCache.set(hash, relativePath, binary);
+    return binary ? { path: relativePath, reason: 'binary' } : undefined;
+  }
+
+  public logSummary(excluded: ExcludedFile[]): void {
+    if (excluded.length === 0) {
+      return;
+    }
+    const counts = new Map<ExclusionReason, number>();
+    for (const file of excluded) {
+      counts.set(file.reason, (counts.get(file.reason) || 0) + 1);
+    }
+    this.outputChannel.appendLine(
+      `Excluded ${excluded.length} file(s): ${[...counts]
+        .map(([reason, count]) => `${count} by ${EXCLUSION_LABELS[reason]}`)
+        .join(', ')}`,
+    );
+  }
+}
+
+export function isBinaryContent(content: Uint8Array): boolean {
+  // every other byte of UTF-16 text is usually zero
+  if (detectUtf16(content)) {
+    return false;
+  }
+
+  const signatures = {
+    pdf: [0x25, 0x50, 0x44, 0x46], // %PDF
+    png: [0x89, 0x50, 0x4e, 0x47], // PNG
+    gif: [0x47, 0x49, 0x46, 0x38], // GIF8
+    jpeg: [0xff, 0xd8, 0xff], // JPEG
+    zip: [0x50, 0x4b, 0x03, 0x04], // ZIP
+    gzip: [0x1f, 0x8b, 0x08], // GZIP
+  };
+
+  // check file signatures
+  for (const [_, sig] of Object.entries(signatures)) {
+    if (
+      content.length >= sig.length &&
+      sig.every((byte, i) => content[i] === byte)
+    ) {
+      return true;
+    }
+  }
+
+  // take samples from beginning, middle, and end of file
+  const sampleSize = 512; // reduced from 1KB to sample multiple areas
+  const samples: Uint8Array[] = [];
+
+  samples.push(content.slice(0, sampleSize));
+
+  // middle sample (if file is large enough)
+  if (content.length > sampleSize * 2) {
+    const midStart =
+      Math.floor(content.length / 2) - Math.floor(sampleSize / 2);
+    samples.push(content.slice(midStart, midStart + sampleSize));
+  }
+
+  // end sample (if file is large enough)
+  if (content.length > sampleSize) {
+    samples.push(content.slice(-sampleSize));
+  }
+
+  for (const sample of samples) {
+    let nullCount = 0;
+    let nonPrintableCount = 0;
+    let consecutiveNonPrintable = 0;
+    let maxConsecutiveNonPrintable = 0;
+
+    for (const byte of sample) {
+      // check for null bytes
+      if (byte === 0) {
+        nullCount++;
+        if (nullCount > 1) {
+          return true;
+        }
+      }
+
+      if ((byte < 32 && ![9, 10, 13].includes(byte)) || byte === 127) {
+        nonPrintableCount++;
+        consecutiveNonPrintable++;
+        maxConsecutiveNonPrintable = Math.max(
+          maxConsecutiveNonPrintable,
+          consecutiveNonPrintable,
+        );
+      } else {
+        consecutiveNonPrintable = 0;
+      }
+
+      // UTF-8 continuation byte check (10xxxxxx)
+      if ((byte & 0xc0) === 0x80) {
+        nonPrintableCount--; // Don't count UTF-8 continuation bytes
+      }
+    }
+
+    if (
+      nonPrintableCount / sample.length > 0.08 ||
+      maxConsecutiveNonPrintable > 4 ||
+      (sample.length > 20 && nullCount / sample.length > 0.01)
+    ) {
+      return true;
+    }
+  }
+
+  return false;
+}
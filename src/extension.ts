@@ -1,57 +1,128 @@
 import * as vscode from 'vscode';
+import { AuthenticationError } from './claude/errors';
+import { DEFAULT_RETRY_POLICY, isRetryable, withRetry } from './claude/retry';
 import { ConfigManager } from './config';
+import { ConflictResolver } from './conflictResolver';
+import { describeExclusion } from './exclusionService';
 import { GitManager } from './gitManager';
+import { GitignoreManager } from './gitignoreManager';
+import { type ProjectTreeItem, ProjectTreeProvider } from './projectTreeView';
 import { SyncManager } from './syncManager';
-import type { SyncResult } from './types';
+import { SyncPreviewPanel } from './syncPreview';
+import type { SyncOptions, SyncResult } from './types';
 
 let outputChannel: vscode.OutputChannel;
 
+interface FolderSync {
+  folder: vscode.WorkspaceFolder;
+  configManager: ConfigManager;
+  syncManager: SyncManager;
+}
+
 export async function activate(context: vscode.ExtensionContext) {
   outputChannel = vscode.window.createOutputChannel('ClaudeSync');
 
+  // global settings like the session token don't belong to a workspace folder
   const configManager = new ConfigManager(outputChannel);
-  let syncManager: SyncManager;
+  context.subscriptions.push(ConflictResolver.register());
+  // each workspace folder has its own config and Claude project, keyed by folder uri
+  const folderSyncs = new Map<string, FolderSync>();
   let fileWatcher: vscode.FileSystemWatcher | undefined;
 
+  const projectTreeProvider = new ProjectTreeProvider(
+    () => Array.from(folderSyncs.values(), (f) => f.syncManager),
+    outputChannel,
+  );
+  context.subscriptions.push(
+    vscode.window.registerTreeDataProvider(
+      'claudesync.projectFiles',
+      projectTreeProvider,
+    ),
+  );
+
+  const getFolderSync = (
+    folder: vscode.WorkspaceFolder | undefined,
+  ): FolderSync | undefined =>
+    folder ? folderSyncs.get(folder.uri.toString()) : undefined;
+
+  // the folder a command applies to: the given resource's folder, else the active
+  // editor's, else the only folder, asking the user when there are several
+  const resolveFolderSync = async (
+    uri?: vscode.Uri,
+  ): Promise<FolderSync | undefined> => {
+    if (uri) {
+      return getFolderSync(vscode.workspace.getWorkspaceFolder(uri));
+    }
+    const activeUri = vscode.window.activeTextEditor?.document.uri;
+    const activeFolder = activeUri
+      ? vscode.workspace.getWorkspaceFolder(activeUri)
+      : undefined;
+    if (activeFolder) {
+      return getFolderSync(activeFolder);
+    }
+
+    const folders = vscode.workspace.workspaceFolders || [];
+    if (folders.length === 0) {
+      vscode.window.showErrorMessage('No workspace folder found');
+      return undefined;
+    }
+    if (folders.length === 1) {
+      return getFolderSync(folders[0]);
+    }
+    return getFolderSync(
+      await vscode.window.showWorkspaceFolderPick({
+        placeHolder: 'Select a workspace folder',
+      }),
+    );
+  };
+
   // function to handle file changes for autosync
-  let autoSyncTimer: NodeJS.Timeout | undefined;
+  const autoSyncTimers = new Map<string, NodeJS.Timeout>();
   const handleFileChange = async (uri: vscode.Uri) => {
-    const config = await configManager.getConfig();
+    const folderSync = getFolderSync(vscode.workspace.getWorkspaceFolder(uri));
+    if (!folderSync) {
+      return;
+    }
+    const config = await folderSync.configManager.getConfig();
     if (!config.autoSync || !config.sessionToken) {
       return;
     }
 
-    // don't sync if file is in excluded patterns
-    const relativePath = vscode.workspace.asRelativePath(uri);
-    const excludePatterns = config.excludePatterns || [];
+    // edited ignore files change what's excluded, so re-read them on the next check
+    const fileName = uri.path.slice(uri.path.lastIndexOf('/') + 1);
     if (
-      excludePatterns.some((pattern) => {
-        // convert glob pattern to regex
-        const regexPattern = pattern
-          .replace(/\*\*/g, '.*')
-          .replace(/\*/g, '[^/]*')
-          .replace(/\?/g, '.');
-        return new RegExp(`^${regexPattern}$`).test(relativePath);
-      })
+      fileName === '.gitignore' ||
+      fileName === GitignoreManager.CLAUDESYNC_IGNORE
     ) {
+      folderSync.syncManager.invalidateExclusions();
+    }
+
+    // don't sync files the sync itself would skip
+    if (await folderSync.syncManager.getExclusion(uri)) {
       return;
     }
 
-    // clear existing timer
-    if (autoSyncTimer) {
-      clearTimeout(autoSyncTimer);
+    // clear existing timer, each folder syncs on its own schedule
+    const folderKey = folderSync.folder.uri.toString();
+    const existingTimer = autoSyncTimers.get(folderKey);
+    if (existingTimer) {
+      clearTimeout(existingTimer);
     }
 
     // start auto-sync after delay
-    autoSyncTimer = setTimeout(async () => {
-      try {
-        await syncFiles([uri]);
-      } catch (error) {
-        outputChannel.appendLine(
-          `Auto-sync failed: ${error instanceof Error ? error.message : String(error)}`,
-        );
-      }
-    }, config.autoSyncDelay * 1000);
+    autoSyncTimers.set(
+      folderKey,
+      setTimeout(async () => {
+        autoSyncTimers.delete(folderKey);
+        try {
+          await syncFiles([uri], { auto: true });
+        } catch (error) {
+          outputChannel.appendLine(
+            `Auto-sync failed: ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      }, config.autoSyncDelay * 1000),
+    );
   };
 
   const setupFileWatcher = async () => {
@@ -61,13 +132,21 @@ export async function activate(context: vscode.ExtensionContext) {
       fileWatcher = undefined;
     }
 
-    const isInitialized = await syncManager?.isProjectInitialized();
-    const config = await configManager.getConfig();
+    // only setup watcher if some folder is initialized, has a token, and auto-sync is enabled
+    let shouldWatch = false;
+    for (const folderSync of folderSyncs.values()) {
+      const config = await folderSync.configManager.getConfig();
+      if (
+        config.sessionToken &&
+        config.autoSync &&
+        (await folderSync.syncManager.isProjectInitialized())
+      ) {
+        shouldWatch = true;
+        break;
+      }
+    }
 
-    // only setup watcher if project is initialized, has a token, and auto-sync is enabled
-    if (isInitialized && config.sessionToken && config.autoSync) {
-      // create watcher that ignores the config file and other excluded patterns
-      const excludePattern = `{**/.vscode/claudesync.json,${config.excludePatterns.join(',')}}`;
+    if (shouldWatch) {
       fileWatcher = vscode.workspace.createFileSystemWatcher(
         `**/*`,
         false,
@@ -89,16 +168,69 @@ export async function activate(context: vscode.ExtensionContext) {
     outputChannel.appendLine('Refreshing configuration...');
     configManager.clearCache(); // clear the config cache
     await configManager.getConfig(); // get fresh config
-    await updateSyncManager(); // update sync manager with new config
+    await updateSyncManagers(); // update sync managers with new config
+    projectTreeProvider.refresh();
   });
   context.subscriptions.push(configWatcher);
 
-  const updateSyncManager = async () => {
-    const config = await configManager.getConfig();
-    syncManager = new SyncManager(config, outputChannel, configManager);
+  // switch the project of folders with branchProjects on checkout
+  let branchWatchers: vscode.Disposable[] = [];
+  context.subscriptions.push({
+    dispose: () => {
+      for (const watcher of branchWatchers) {
+        watcher.dispose();
+      }
+    },
+  });
+  const onProjectSwitch = (folder: vscode.WorkspaceFolder) => {
+    return (result: SyncResult) => {
+      if (result.success) {
+        const message = `${result.message} for '${folder.name}'`;
+        outputChannel.appendLine(message);
+        vscode.window.showInformationMessage(message);
+      } else {
+        const errorMsg = result.error
+          ? `${result.message || 'Error'}: ${result.error.message}`
+          : result.message || 'Unknown error';
+        outputChannel.appendLine(`Failed to switch project: ${errorMsg}`);
+        vscode.window.showErrorMessage(errorMsg);
+      }
+      projectTreeProvider.refresh();
+    };
+  };
 
-    // sync workspace on startup if enabled and project is initialized
-    const isInitialized = await syncManager.isProjectInitialized();
+  const updateSyncManagers = async () => {
+    folderSyncs.clear();
+    for (const watcher of branchWatchers) {
+      watcher.dispose();
+    }
+    branchWatchers = [];
+    let isInitialized = false;
+    for (const folder of vscode.workspace.workspaceFolders || []) {
+      const folderConfigManager = new ConfigManager(outputChannel, folder);
+      const folderConfig = await folderConfigManager.getConfig();
+      const syncManager = new SyncManager(
+        folderConfig,
+        outputChannel,
+        folderConfigManager,
+      );
+      folderSyncs.set(folder.uri.toString(), {
+        folder,
+        configManager: folderConfigManager,
+        syncManager,
+      });
+      const folderInitialized = await syncManager.isProjectInitialized();
+      isInitialized = folderInitialized || isInitialized;
+      const watcher = folderInitialized
+        ? await syncManager.watchBranch(onProjectSwitch(folder))
+        : undefined;
+      if (watcher) {
+        branchWatchers.push(watcher);
+      }
+    }
+
+    // sync workspace on startup if enabled and a project is initialized
+    const config = await configManager.getConfig();
     const vscodeConfig = vscode.workspace.getConfiguration('claudesync');
     const syncOnStartup = vscodeConfig.get('syncOnStartup') as boolean;
 
@@ -119,13 +251,24 @@ export async function activate(context: vscode.ExtensionContext) {
     // setup file watcher based on current state
     await setupFileWatcher();
   };
-  await updateSyncManager();
+  await updateSyncManagers();
+
+  context.subscriptions.push(
+    vscode.workspace.onDidChangeWorkspaceFolders(async () => {
+      await updateSyncManagers();
+      projectTreeProvider.refresh();
+    }),
+  );
 
   // command to configure autosync
   const configureAutoSyncCommand = vscode.commands.registerCommand(
     'claudesync.configureAutoSync',
     async (): Promise<void> => {
-      const config = await configManager.getConfig();
+      const folderSync = await resolveFolderSync();
+      if (!folderSync) {
+        return;
+      }
+      const config = await folderSync.configManager.getConfig();
 
       // ask user to enable/disable autosync
       const enableAutoSync = await vscode.window.showQuickPick(
@@ -161,7 +304,7 @@ export async function activate(context: vscode.ExtensionContext) {
       }
 
       // save configuration
-      await configManager.saveWorkspaceConfig({
+      await folderSync.configManager.saveWorkspaceConfig({
         autoSync: enableAutoSync === 'Enable',
         autoSyncDelay,
       });
@@ -198,7 +341,10 @@ export async function activate(context: vscode.ExtensionContext) {
   const configureCleanupRemoteCommand = vscode.commands.registerCommand(
     'claudesync.configureCleanupRemote',
     async (): Promise<void> => {
-      const config = await configManager.getConfig();
+      const folderSync = await resolveFolderSync();
+      if (!folderSync) {
+        return;
+      }
 
       const enableCleanup = await vscode.window.showQuickPick(
         ['Enable', 'Disable'],
@@ -212,7 +358,7 @@ export async function activate(context: vscode.ExtensionContext) {
         return;
       }
 
-      await configManager.saveWorkspaceConfig({
+      await folderSync.configManager.saveWorkspaceConfig({
         cleanupRemoteFiles: enableCleanup === 'Enable',
       });
 
@@ -234,8 +380,11 @@ export async function activate(context: vscode.ExtensionContext) {
   // track last failed sync time to prevent rapid retries
   let lastFailedSyncTime = 0;
   const SYNC_COOLDOWN_MS = 3000;
+  // a rerun asks the sync's questions again, about secrets, conflicts or a new branch
+  // project, so a failed sync is only rerun once
+  const SYNC_RETRY_POLICY = { ...DEFAULT_RETRY_POLICY, maxAttempts: 2 };
 
-  async function syncFiles(files: vscode.Uri[]) {
+  async function syncFiles(files: vscode.Uri[], options: SyncOptions = {}) {
     const config = await configManager.getConfig();
     if (!config.sessionToken) {
       const setToken = await vscode.window.showErrorMessage(
@@ -248,15 +397,83 @@ export async function activate(context: vscode.ExtensionContext) {
       return;
     }
 
+    if (files.length === 0) {
+      vscode.window.showInformationMessage('No files to sync');
+      return;
+    }
+
+    // each workspace folder syncs to its own project
+    const filesByFolder = new Map<FolderSync, vscode.Uri[]>();
+    for (const file of files) {
+      const folderSync = getFolderSync(
+        vscode.workspace.getWorkspaceFolder(file),
+      );
+      if (!folderSync) {
+        outputChannel.appendLine(
+          `Skipping file outside of workspace folders: ${file.fsPath}`,
+        );
+        continue;
+      }
+      filesByFolder.set(folderSync, [
+        ...(filesByFolder.get(folderSync) || []),
+        file,
+      ]);
+    }
+
+    for (const [folderSync, folderFiles] of filesByFolder) {
+      await syncFolderFiles(folderSync, folderFiles, options);
+    }
+  }
+
+  // syncs the files git reports as changed since the last synced commit, or every file
+  // of the folder when there is no such commit to compare with
+  async function syncFolderIncrementally(folderSync: FolderSync) {
+    const { folder, syncManager } = folderSync;
+    const changes = await syncManager.getGitChanges();
+    if (changes?.files) {
+      outputChannel.appendLine(
+        `${changes.files.length} file(s) in '${folder.name}' changed since the last synced commit`,
+      );
+      if (changes.files.length === 0) {
+        await syncManager.recordSyncedCommit(changes.commit);
+        return;
+      }
+      await syncFiles(changes.files, { commit: changes.commit });
+      return;
+    }
+
+    outputChannel.appendLine(
+      changes
+        ? `No synced commit to compare with in '${folder.name}', syncing every file`
+        : `'${folder.name}' is not a git repository, syncing every file`,
+    );
+    const files = await vscode.workspace.findFiles(
+      new vscode.RelativePattern(folder, '**/*'),
+    );
+    await syncFiles(files, { wholeFolder: true, commit: changes?.commit });
+  }
+
+  async function syncFolderFiles(
+    folderSync: FolderSync,
+    files: vscode.Uri[],
+    options: SyncOptions,
+  ) {
+    const { folder, syncManager } = folderSync;
+
     // check if project is initialized first
     const isInitialized = await syncManager.isProjectInitialized();
     if (!isInitialized) {
       const init = await vscode.window.showErrorMessage(
-        'Project needs to be initialized first',
+        folderSyncs.size > 1
+          ? `Project for folder '${folder.name}' needs to be initialized first`
+          : 'Project needs to be initialized first',
         'Initialize Project',
       );
       if (init) {
-        await vscode.commands.executeCommand('claudesync.initProject');
+        await vscode.commands.executeCommand(
+          'claudesync.initProject',
+          folder.uri,
+        );
       }
       return;
     }
@@ -270,15 +487,8 @@ export async function activate(context: vscode.ExtensionContext) {
       return;
     }
 
-    if (files.length === 0) {
-      vscode.window.showInformationMessage('No files to sync');
-      return;
-    }
-
-    const maxRetries = 20; // claude api is very unreliable
-    let attempt = 0;
-    let success = false;
-    let lastResult: SyncResult;
+    let result: SyncResult | undefined;
+    let lastError: unknown;
 
     await vscode.window.withProgress(
       {
@@ -287,61 +497,45 @@ export async function activate(context: vscode.ExtensionContext) {
         cancellable: false,
       },
       async (progress) => {
-        while (attempt < maxRetries && !success) {
-          try {
-            progress.report({ message: 'Processing files...' });
-            const result = await syncManager.syncFiles(files);
-            lastResult = result;
-
-            if (result.success) {
-              success = true;
-              outputChannel.appendLine(`Files synced successfully`);
-              break;
-            } else if (result.message?.includes('Project not initialized')) {
-              const init = await vscode.window.showErrorMessage(
-                result.message || 'Project not initialized',
-                'Initialize Project',
-              );
-              if (init) {
-                await vscode.commands.executeCommand('claudesync.initProject');
-              }
-              success = false;
-              break;
-            } else {
-              const errorMsg = result.error
-                ? `${result.message}: ${result.error.message}`
-                : result.message;
-              outputChannel.appendLine(`Failed to sync files: ${errorMsg}`);
-              attempt++;
-              if (attempt >= maxRetries) {
-                break;
+        progress.report({ message: 'Processing files...' });
+        try {
+          // the client already retries what it safely can, this reruns the sync after
+          // a failed upload, e.g. a bad token fails right away
+          result = await withRetry(
+            async () => {
+              const attemptResult = await syncManager.syncFiles(files, options);
+              if (!attemptResult.success && isRetryable(attemptResult.error)) {
+                throw attemptResult.error;
               }
-              await new Promise((resolve) => setTimeout(resolve, 3000));
-              progress.report({ message: 'Syncing...' });
-            }
-          } catch (error) {
-            const errorMsg = `Failed to sync files: ${error instanceof Error ? error.message : String(error)}`;
-            outputChannel.appendLine(`Error: ${errorMsg}`);
-            if (error instanceof Error && error.stack) {
-              outputChannel.appendLine(`Stack trace: ${error.stack}`);
-            }
-            attempt++;
-            if (attempt >= maxRetries) {
-              break;
-            }
-            await new Promise((resolve) => setTimeout(resolve, 3000));
-            progress.report({ message: 'Syncing...' });
+              return attemptResult;
+            },
+            SYNC_RETRY_POLICY,
+            (error, attempt, delay) => {
+              outputChannel.appendLine(
+                `Failed to sync files: ${error instanceof Error ? error.message : String(error)}`,
+              );
+              progress.report({
+                message: `Attempt ${attempt} failed, retrying in ${Math.ceil(delay / 1000)}s...`,
+              });
+            },
+          );
+        } catch (error) {
+          const errorMsg = `Failed to sync files: ${error instanceof Error ? error.message : String(error)}`;
+          outputChannel.appendLine(`Error: ${errorMsg}`);
+          if (error instanceof Error && error.stack) {
+            outputChannel.appendLine(`Stack trace: ${error.stack}`);
           }
+          lastError = error;
         }
 
-        if (!success) {
-          lastFailedSyncTime = Date.now(); // start cooldown period
-        }
-
-        if (success) {
+        if (result?.success) {
+          outputChannel.appendLine(
+            `Files in '${folder.name}' synced successfully`,
+          );
+          projectTreeProvider.refresh();
           // add small delay to ensure progress notification has closed
           await new Promise((resolve) => setTimeout(resolve, 500));
-          const syncedFiles = lastResult?.data?.syncedFiles || 0;
+          const syncedFiles = result.data?.syncedFiles || 0;
           if (syncedFiles === 0) {
             vscode.window.showInformationMessage(
               'No files needed syncing - all files were up to date.',
@@ -351,9 +545,47 @@ export async function activate(context: vscode.ExtensionContext) {
               `Successfully synced ${syncedFiles} file${syncedFiles === 1 ? '' : 's'} with Claude!`,
             );
           }
+          return;
+        }
+
+        lastFailedSyncTime = Date.now(); // start cooldown period
+        if (result?.message?.includes('Project not initialized')) {
+          const init = await vscode.window.showErrorMessage(
+            result.message,
+            'Initialize Project',
+          );
+          if (init) {
+            await vscode.commands.executeCommand(
+              'claudesync.initProject',
+              folder.uri,
+            );
+          }
+          return;
+        }
+        if (result) {
+          outputChannel.appendLine(
+            `Failed to sync files: ${
+              result.error
+                ? `${result.message}: ${result.error.message}`
+                : result.message
+            }`,
+          );
+          lastError = result.error;
+        }
+
+        if (lastError instanceof AuthenticationError) {
+          const setToken = await vscode.window.showErrorMessage(
+            'Failed to sync files, is your Claude session token correct?',
+            'Set Token',
+          );
+          if (setToken) {
+            await vscode.commands.executeCommand('claudesync.setToken');
+          }
         } else {
           vscode.window.showErrorMessage(
-            'Failed to sync files, is your Claude session token correct?',
+            lastError instanceof Error
+              ? `Failed to sync files: ${lastError.message}`
+              : 'Failed to sync files',
           );
         }
       },
@@ -380,7 +612,7 @@ export async function activate(context: vscode.ExtensionContext) {
       if (token) {
         try {
           await configManager.saveGlobalConfig({ sessionToken: token });
-          await updateSyncManager();
+          await updateSyncManagers();
           vscode.window.showInformationMessage(
             'Claude session token has been successfully saved and configured',
           );
@@ -395,7 +627,7 @@ export async function activate(context: vscode.ExtensionContext) {
   // command to initialize project
   const initProjectCommand = vscode.commands.registerCommand(
     'claudesync.initProject',
-    async () => {
+    async (uri?: vscode.Uri) => {
       const config = await configManager.getConfig();
 
       if (!config.sessionToken) {
@@ -410,8 +642,13 @@ export async function activate(context: vscode.ExtensionContext) {
         return;
       }
 
+      const folderSync = await resolveFolderSync(uri);
+      if (!folderSync) {
+        return;
+      }
+
       try {
-        const result = await syncManager.initializeProject();
+        const result = await folderSync.syncManager.initializeProject();
         outputChannel.appendLine(
           `Initialize project result: ${JSON.stringify(result)}`,
         );
@@ -431,8 +668,9 @@ export async function activate(context: vscode.ExtensionContext) {
           if (action === 'Sync Workspace') {
             await vscode.commands.executeCommand('claudesync.syncWorkspace');
           } else if (action === 'Open in Browser') {
+            const { projectId } = await folderSync.configManager.getConfig();
             vscode.env.openExternal(
-              vscode.Uri.parse(`https://claude.ai/project/${config.projectId}`),
+              vscode.Uri.parse(`https://claude.ai/project/${projectId}`),
             );
           }
         } else {
@@ -465,24 +703,60 @@ export async function activate(context: vscode.ExtensionContext) {
   const syncWorkspaceCommand = vscode.commands.registerCommand(
     'claudesync.syncWorkspace',
     async () => {
-      const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-      if (!workspaceFolder) {
+      const workspaceFolders = vscode.workspace.workspaceFolders || [];
+      if (workspaceFolders.length === 0) {
         vscode.window.showErrorMessage('No workspace folder found');
         return;
       }
 
       try {
-        const config = await configManager.getConfig();
-        const excludePatterns = config.excludePatterns || [];
-        outputChannel.appendLine(
-          `Using exclude patterns from config: ${excludePatterns.join(', ')}`,
-        );
+        // in a multi-root workspace only folders with a project are synced
+        const folders: vscode.WorkspaceFolder[] = [];
+        for (const folder of workspaceFolders) {
+          if (
+            workspaceFolders.length === 1 ||
+            (await getFolderSync(folder)?.syncManager.isProjectInitialized())
+          ) {
+            folders.push(folder);
+          }
+        }
+        if (folders.length === 0) {
+          const init = await vscode.window.showErrorMessage(
+            'No workspace folder has a Claude project yet',
+            'Initialize Project',
+          );
+          if (init) {
+            await vscode.commands.executeCommand('claudesync.initProject');
+          }
+          return;
+        }
 
-        const files = await vscode.workspace.findFiles('**/*');
+        const files: vscode.Uri[] = [];
+        let incremental = 0;
+        for (const folder of folders) {
+          const folderSync = getFolderSync(folder);
+          const config = await folderSync?.configManager.getConfig();
+          if (folderSync && config?.incrementalSync) {
+            await syncFolderIncrementally(folderSync);
+            incremental++;
+            continue;
+          }
+          outputChannel.appendLine(
+            `Using exclude patterns from config for '${folder.name}': ${(config?.excludePatterns || []).join(', ')}`,
+          );
+          files.push(
+            ...(await vscode.workspace.findFiles(
+              new vscode.RelativePattern(folder, '**/*'),
+            )),
+          );
+        }
+        if (incremental === folders.length) {
+          return;
+        }
         outputChannel.appendLine(
           `Found ${files.length} total files before filtering`,
         );
-        await syncFiles(files);
+        await syncFiles(files, { wholeFolder: true });
       } catch (error) {
         const errorMsg = `Failed to sync workspace: ${error instanceof Error ? error.message : String(error)}`;
         vscode.window.showErrorMessage(errorMsg);
@@ -490,6 +764,256 @@ export async function activate(context: vscode.ExtensionContext) {
     },
   );
 
+  // command to preview what a workspace sync would do
+  const previewSyncCommand = vscode.commands.registerCommand(
+    'claudesync.previewSync',
+    async () => {
+      const config = await configManager.getConfig();
+      if (!config.sessionToken) {
+        const setToken = await vscode.window.showErrorMessage(
+          'Please set your Claude session token first',
+          'Set Token',
+        );
+        if (setToken) {
+          await vscode.commands.executeCommand('claudesync.setToken');
+        }
+        return;
+      }
+
+      const folderSync = await resolveFolderSync();
+      if (!folderSync) {
+        return;
+      }
+      const { folder, syncManager } = folderSync;
+
+      if (!(await syncManager.isProjectInitialized())) {
+        const init = await vscode.window.showErrorMessage(
+          'Project needs to be initialized first',
+          'Initialize Project',
+        );
+        if (init) {
+          await vscode.commands.executeCommand(
+            'claudesync.initProject',
+            folder.uri,
+          );
+        }
+        return;
+      }
+
+      try {
+        const pattern = new vscode.RelativePattern(folder, '**/*');
+        const files = await vscode.workspace.findFiles(pattern);
+        const result = await vscode.window.withProgress(
+          {
+            location: vscode.ProgressLocation.Notification,
+            title: 'Planning sync',
+            cancellable: false,
+          },
+          () => syncManager.planSync(files, { wholeFolder: true }),
+        );
+        if (!result.success || !result.plan) {
+          const errorMsg = result.error
+            ? `${result.message || 'Error'}: ${result.error.message}`
+            : result.message || 'Unknown error';
+          outputChannel.appendLine(`Failed to preview sync: ${errorMsg}`);
+          vscode.window.showErrorMessage(errorMsg);
+          return;
+        }
+
+        outputChannel.appendLine(`Sync preview: ${result.message}`);
+        // re-list the workspace on apply so the sync reflects edits made since the preview
+        SyncPreviewPanel.show(result.plan, async () => {
+          await syncFiles(await vscode.workspace.findFiles(pattern), {
+            wholeFolder: true,
+          });
+        });
+      } catch (error) {
+        const errorMsg = `Failed to preview sync: ${error instanceof Error ? error.message : String(error)}`;
+        outputChannel.appendLine(`Error: ${errorMsg}`);
+        vscode.window.showErrorMessage(errorMsg);
+      }
+    },
+  );
+
+  // asks for a branch, tag or commit of the folder's repository, extra items listed first
+  async function pickGitRevision(
+    syncManager: SyncManager,
+    placeHolder: string,
+    extra: vscode.QuickPickItem[] = [],
+  ): Promise<string | undefined> {
+    const refs = await syncManager.listGitRefs();
+    const kinds = { branch: 'branch', remote: 'remote branch', tag: 'tag' };
+    const enterCommit = '$(git-commit) Enter a commit...';
+    const picked = await vscode.window.showQuickPick(
+      [
+        ...extra,
+        { label: enterCommit },
+        ...refs.map((ref) => ({
+          label: ref.name,
+          description: kinds[ref.kind],
+        })),
+      ],
+      { placeHolder, matchOnDescription: true },
+    );
+    if (!picked || picked.label !== enterCommit) {
+      return picked?.label;
+    }
+    const revision = await vscode.window.showInputBox({
+      prompt: 'Commit hash or any revision git understands',
+      placeHolder: 'e.g. 4f2a9c1 or HEAD~3',
+    });
+    return revision?.trim() || undefined;
+  }
+
+  // command to upload the files of a git branch, tag or commit instead of the working tree
+  const syncGitRevisionCommand = vscode.commands.registerCommand(
+    'claudesync.syncGitRevision',
+    async () => {
+      const folderSync = await resolveFolderSync();
+      if (!folderSync) {
+        return;
+      }
+      const { folder, syncManager } = folderSync;
+
+      try {
+        const revision = await pickGitRevision(
+          syncManager,
+          `Select the revision of '${folder.name}' to sync`,
+        );
+        if (!revision) {
+          return;
+        }
+
+        const snapshot = await syncManager.getRevisionFiles(revision);
+        if (!snapshot) {
+          vscode.window.showErrorMessage(
+            `Git revision '${revision}' not found in '${folder.name}'`,
+          );
+          return;
+        }
+        outputChannel.appendLine(
+          `Syncing ${snapshot.files.length} file(s) of '${revision}' (${snapshot.commit.slice(0, 8)}) in '${folder.name}'`,
+        );
+        // with incremental sync, the next sync uploads what differs from this snapshot
+        const config = await folderSync.configManager.getConfig();
+        await syncFiles(snapshot.files, {
+          wholeFolder: true,
+          revision: snapshot.commit,
+          commit: config.incrementalSync ? snapshot.commit : undefined,
+        });
+      } catch (error) {
+        const errorMsg = `Failed to sync git revision: ${error instanceof Error ? error.message : String(error)}`;
+        outputChannel.appendLine(`Error: ${errorMsg}`);
+        vscode.window.showErrorMessage(errorMsg);
+      }
+    },
+  );
+
+  // command to upload the diff against a base revision as a document for code review
+  const uploadChangesCommand = vscode.commands.registerCommand(
+    'claudesync.uploadChanges',
+    async () => {
+      const folderSync = await resolveFolderSync();
+      if (!folderSync) {
+        return;
+      }
+      const { folder, syncManager } = folderSync;
+
+      try {
+        const base = await pickGitRevision(
+          syncManager,
+          `Select the base to compare '${folder.name}' with`,
+          [{ label: 'HEAD', description: 'uncommitted changes only' }],
+        );
+        if (!base) {
+          return;
+        }
+
+        const result = await vscode.window.withProgress(
+          {
+            location: vscode.ProgressLocation.Notification,
+            title: 'Uploading changes',
+            cancellable: false,
+          },
+          () => syncManager.uploadChangeContext(base),
+        );
+        if (result.success) {
+          vscode.window.showInformationMessage(
+            result.message || 'Changes uploaded',
+          );
+          projectTreeProvider.refresh();
+        } else {
+          const errorMsg = result.error
+            ? `${result.message || 'Error'}: ${result.error.message}`
+            : result.message || 'Unknown error';
+          outputChannel.appendLine(`Failed to upload changes: ${errorMsg}`);
+          vscode.window.showErrorMessage(errorMsg);
+        }
+      } catch (error) {
+        const errorMsg = `Failed to upload changes: ${error instanceof Error ? error.message : String(error)}`;
+        outputChannel.appendLine(`Error: ${errorMsg}`);
+        vscode.window.showErrorMessage(errorMsg);
+      }
+    },
+  );
+
+  // command to pull remote project files into the workspace
+  const pullFromProjectCommand = vscode.commands.registerCommand(
+    'claudesync.pullFromProject',
+    async () => {
+      const config = await configManager.getConfig();
+      if (!config.sessionToken) {
+        const setToken = await vscode.window.showErrorMessage(
+          'Please set your Claude session token first',
+          'Set Token',
+        );
+        if (setToken) {
+          await vscode.commands.executeCommand('claudesync.setToken');
+        }
+        return;
+      }
+
+      const folderSync = await resolveFolderSync();
+      if (!folderSync) {
+        return;
+      }
+
+      if (!(await folderSync.syncManager.isProjectInitialized())) {
+        const init = await vscode.window.showErrorMessage(
+          'Project needs to be initialized first',
+          'Initialize Project',
+        );
+        if (init) {
+          await vscode.commands.executeCommand(
+            'claudesync.initProject',
+            folderSync.folder.uri,
+          );
+        }
+        return;
+      }
+
+      try {
+        const result = await folderSync.syncManager.pullFiles();
+        if (result.success) {
+          projectTreeProvider.refresh();
+          const message = result.message || 'Pulled files from Claude';
+          vscode.window.showInformationMessage(message);
+          outputChannel.appendLine(message);
+        } else if (result.message !== 'Pull cancelled') {
+          const errorMsg = result.error
+            ? `${result.message || 'Error'}: ${result.error.message}`
+            : result.message || 'Unknown error';
+          outputChannel.appendLine(`Failed to pull files: ${errorMsg}`);
+          vscode.window.showErrorMessage(errorMsg);
+        }
+      } catch (error) {
+        const errorMsg = `Failed to pull files: ${error instanceof Error ? error.message : String(error)}`;
+        outputChannel.appendLine(`Error: ${errorMsg}`);
+        vscode.window.showErrorMessage(errorMsg);
+      }
+    },
+  );
+
   // Command to sync project instructions
   const syncProjectInstructionsCommand = vscode.commands.registerCommand(
     'claudesync.syncProjectInstructions',
@@ -507,8 +1031,13 @@ export async function activate(context: vscode.ExtensionContext) {
         return;
       }
 
+      const folderSync = await resolveFolderSync();
+      if (!folderSync) {
+        return;
+      }
+
       try {
-        const result = await syncManager.syncProjectInstructions();
+        const result = await folderSync.syncManager.syncProjectInstructions();
         if (result.success) {
           const message =
             result.message || 'Project instructions synced successfully';
@@ -536,6 +1065,52 @@ export async function activate(context: vscode.ExtensionContext) {
     },
   );
 
+  // command to show .projectinstructions as it will be uploaded, after templating
+  const previewProjectInstructionsCommand = vscode.commands.registerCommand(
+    'claudesync.previewProjectInstructions',
+    async () => {
+      const folderSync = await resolveFolderSync();
+      if (!folderSync) {
+        return;
+      }
+
+      try {
+        const instructions =
+          await folderSync.syncManager.renderProjectInstructions();
+        if (!instructions) {
+          vscode.window.showErrorMessage(
+            `No .projectinstructions file found in '${folderSync.folder.name}'`,
+          );
+          return;
+        }
+        const document = await vscode.workspace.openTextDocument({
+          content: instructions.text,
+          language: 'markdown',
+        });
+        await vscode.window.showTextDocument(document, {
+          viewColumn: vscode.ViewColumn.Beside,
+          preview: true,
+        });
+        if (instructions.warnings.length) {
+          for (const warning of instructions.warnings) {
+            outputChannel.appendLine(`.projectinstructions: ${warning}`);
+          }
+          const show = await vscode.window.showWarningMessage(
+            `${instructions.warnings.length} problem(s) in .projectinstructions, the affected tags are left as they are`,
+            'Show Output',
+          );
+          if (show) {
+            outputChannel.show();
+          }
+        }
+      } catch (error) {
+        const errorMsg = `Failed to preview project instructions: ${error instanceof Error ? error.message : String(error)}`;
+        outputChannel.appendLine(`Error: ${errorMsg}`);
+        vscode.window.showErrorMessage(errorMsg);
+      }
+    },
+  );
+
   // update project instructions
   const updateProjectInstructionsCommand = vscode.commands.registerCommand(
     'claudesync.updateProjectInstructions',
@@ -553,8 +1128,13 @@ export async function activate(context: vscode.ExtensionContext) {
         return;
       }
 
+      const folderSync = await resolveFolderSync();
+      if (!folderSync) {
+        return;
+      }
+
       try {
-        const result = await syncManager.syncProjectInstructions();
+        const result = await folderSync.syncManager.syncProjectInstructions();
         if (result.success) {
           const message =
             result.message || 'Project instructions updated successfully';
@@ -586,7 +1166,11 @@ export async function activate(context: vscode.ExtensionContext) {
   const openInBrowserCommand = vscode.commands.registerCommand(
     'claudesync.openInBrowser',
     async () => {
-      const config = await configManager.getConfig();
+      const folderSync = await resolveFolderSync();
+      if (!folderSync) {
+        return;
+      }
+      const config = await folderSync.configManager.getConfig();
       if (!config.sessionToken) {
         const setToken = await vscode.window.showErrorMessage(
           'Please set your Claude session token first',
@@ -604,13 +1188,19 @@ export async function activate(context: vscode.ExtensionContext) {
           'Initialize Project',
         );
         if (init) {
-          await vscode.commands.executeCommand('claudesync.initProject');
+          await vscode.commands.executeCommand(
+            'claudesync.initProject',
+            folderSync.folder.uri,
+          );
         }
         return;
       }
 
+      const projectId =
+        (await folderSync.syncManager.getCurrentProjectId()) ??
+        config.projectId;
       vscode.env.openExternal(
-        vscode.Uri.parse(`https://claude.ai/project/${config.projectId}`),
+        vscode.Uri.parse(`https://claude.ai/project/${projectId}`),
       );
     },
   );
@@ -619,7 +1209,7 @@ export async function activate(context: vscode.ExtensionContext) {
   async function getExcludePattern(
     uri: vscode.Uri,
   ): Promise<{ isDirectory: boolean; pattern: string }> {
-    const relativePath = vscode.workspace.asRelativePath(uri);
+    const relativePath = vscode.workspace.asRelativePath(uri, false);
     const stat = await vscode.workspace.fs.stat(uri);
     const isDirectory =
       (stat.type & vscode.FileType.Directory) === vscode.FileType.Directory;
@@ -647,33 +1237,39 @@ export async function activate(context: vscode.ExtensionContext) {
   }
 
   // helper function to sync after include/exclude operations
-  async function syncAfterPatternChange(
-    uri: vscode.Uri,
-    isDirectory: boolean,
-    relativePath: string,
-  ) {
-    const config = await configManager.getConfig();
-    const isInitialized = await syncManager.isProjectInitialized();
+  async function syncAfterPatternChange(folderSync: FolderSync) {
+    const config = await folderSync.configManager.getConfig();
+    const isInitialized = await folderSync.syncManager.isProjectInitialized();
 
     if (isInitialized && config.sessionToken) {
-      const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-      if (workspaceFolder) {
-        const files = await vscode.workspace.findFiles('**/*');
-        await syncFiles(files);
-      }
+      const files = await vscode.workspace.findFiles(
+        new vscode.RelativePattern(folderSync.folder, '**/*'),
+      );
+      await syncFiles(files, { wholeFolder: true });
     }
   }
 
   // command to exclude file from sync
   const excludeFromSyncCommand = vscode.commands.registerCommand(
     'claudesync.excludeFromSync',
-    async (uri: vscode.Uri) => {
+    async (target?: vscode.Uri | ProjectTreeItem) => {
+      const uri = target instanceof vscode.Uri ? target : target?.resourceUri;
       if (!uri) {
         vscode.window.showErrorMessage('No file selected');
         return;
       }
 
-      const relativePath = vscode.workspace.asRelativePath(uri);
+      const folderSync = getFolderSync(
+        vscode.workspace.getWorkspaceFolder(uri),
+      );
+      if (!folderSync) {
+        vscode.window.showErrorMessage(
+          `'${uri.fsPath}' is not inside a workspace folder`,
+        );
+        return;
+      }
+      const { configManager } = folderSync;
+      const relativePath = vscode.workspace.asRelativePath(uri, false);
       try {
         const config = await configManager.getConfig();
         const excludePatterns = config.excludePatterns || [];
@@ -691,6 +1287,13 @@ export async function activate(context: vscode.ExtensionContext) {
           );
           return;
         }
+        const exclusion = await folderSync.syncManager.getExclusion(uri);
+        if (exclusion && exclusion.reason !== 'pattern') {
+          vscode.window.showInformationMessage(
+            `${isDirectory ? 'Directory' : 'File'} '${relativePath}' is already excluded by ${describeExclusion(exclusion)}`,
+          );
+          return;
+        }
 
         // add to exclude patterns
         excludePatterns.push(pattern);
@@ -701,7 +1304,7 @@ export async function activate(context: vscode.ExtensionContext) {
 
         // if auto-sync is enabled or cleanup is enabled, trigger a sync
         if (config.autoSync || config.cleanupRemoteFiles) {
-          await syncAfterPatternChange(uri, isDirectory, relativePath);
+          await syncAfterPatternChange(folderSync);
         }
       } catch (error) {
         const errorMsg = `Failed to exclude ${relativePath}: ${error instanceof Error ? error.message : String(error)}`;
@@ -717,13 +1320,24 @@ export async function activate(context: vscode.ExtensionContext) {
   // command to include file in sync
   const includeInSyncCommand = vscode.commands.registerCommand(
     'claudesync.includeInSync',
-    async (uri: vscode.Uri) => {
+    async (target?: vscode.Uri | ProjectTreeItem) => {
+      const uri = target instanceof vscode.Uri ? target : target?.resourceUri;
       if (!uri) {
         vscode.window.showErrorMessage('No file selected');
         return;
       }
 
-      const relativePath = vscode.workspace.asRelativePath(uri);
+      const folderSync = getFolderSync(
+        vscode.workspace.getWorkspaceFolder(uri),
+      );
+      if (!folderSync) {
+        vscode.window.showErrorMessage(
+          `'${uri.fsPath}' is not inside a workspace folder`,
+        );
+        return;
+      }
+      const { configManager } = folderSync;
+      const relativePath = vscode.workspace.asRelativePath(uri, false);
       try {
         const config = await configManager.getConfig();
         const excludePatterns = config.excludePatterns || [];
@@ -736,8 +1350,12 @@ export async function activate(context: vscode.ExtensionContext) {
           isDirectory,
         );
         if (!existingPattern) {
+          // excluded for another reason that an exclude pattern can't undo
+          const exclusion = await folderSync.syncManager.getExclusion(uri);
           vscode.window.showInformationMessage(
-            `${isDirectory ? 'Directory' : 'File'} '${relativePath}' is not excluded from Claude project`,
+            exclusion
+              ? `${isDirectory ? 'Directory' : 'File'} '${relativePath}' is excluded by ${describeExclusion(exclusion)}, not by an exclude pattern`
+              : `${isDirectory ? 'Directory' : 'File'} '${relativePath}' is not excluded from Claude project`,
           );
           return;
         }
@@ -748,10 +1366,10 @@ export async function activate(context: vscode.ExtensionContext) {
         await configManager.saveWorkspaceConfig({ excludePatterns });
 
         // attempt to sync the file/directory
-        await syncAfterPatternChange(uri, isDirectory, relativePath);
+        await syncAfterPatternChange(folderSync);
 
         if (
-          !(await syncManager.isProjectInitialized()) ||
+          !(await folderSync.syncManager.isProjectInitialized()) ||
           !config.sessionToken
         ) {
           vscode.window.showInformationMessage(
@@ -784,6 +1402,188 @@ export async function activate(context: vscode.ExtensionContext) {
     },
   );
 
+  // command to explain which rule excludes a file, with an offer to override it
+  const explainFileStatusCommand = vscode.commands.registerCommand(
+    'claudesync.explainFileStatus',
+    async (target?: vscode.Uri | ProjectTreeItem) => {
+      const uri =
+        target instanceof vscode.Uri
+          ? target
+          : (target?.resourceUri ??
+            vscode.window.activeTextEditor?.document.uri);
+      if (!uri) {
+        vscode.window.showErrorMessage('No file selected');
+        return;
+      }
+
+      const folderSync = getFolderSync(
+        vscode.workspace.getWorkspaceFolder(uri),
+      );
+      if (!folderSync) {
+        vscode.window.showErrorMessage(
+          `'${uri.fsPath}' is not inside a workspace folder`,
+        );
+        return;
+      }
+      const { syncManager } = folderSync;
+      const relativePath = vscode.workspace.asRelativePath(uri, false);
+
+      try {
+        // pick up ignore file edits made since the last check
+        syncManager.invalidateExclusions();
+        const exclusion = await syncManager.getExclusion(uri);
+        if (!exclusion) {
+          vscode.window.showInformationMessage(
+            `'${relativePath}' is not excluded and will be synced with Claude`,
+          );
+          return;
+        }
+
+        const message = `'${relativePath}' is excluded by ${describeExclusion(exclusion)}`;
+        outputChannel.appendLine(message);
+        const canInclude =
+          exclusion.reason === 'gitignore' ||
+          exclusion.reason === 'claudesyncignore' ||
+          exclusion.reason === 'pattern' ||
+          exclusion.reason === 'binary';
+        const choice = await vscode.window.showInformationMessage(
+          message,
+          ...(canInclude ? ['Include in Sync'] : []),
+        );
+        if (choice !== 'Include in Sync') {
+          return;
+        }
+
+        const result = await syncManager.addIncludeRule(exclusion);
+        if (!result.success) {
+          const errorMsg = result.error
+            ? `${result.message || 'Error'}: ${result.error.message}`
+            : result.message || 'Unknown error';
+          vscode.window.showErrorMessage(errorMsg);
+          return;
+        }
+        outputChannel.appendLine(result.message || 'Include rule added');
+
+        // e.g. a parent directory excluded by the same ignore file can't be re-included
+        const remaining = await syncManager.getExclusion(uri);
+        if (remaining) {
+          vscode.window.showWarningMessage(
+            `${result.message}, but '${relativePath}' is still excluded by ${describeExclusion(remaining)}`,
+          );
+        } else {
+          vscode.window.showInformationMessage(
+            `${result.message}, '${relativePath}' will be synced with Claude`,
+          );
+        }
+        projectTreeProvider.refresh();
+      } catch (error) {
+        const errorMsg = `Failed to explain status of ${relativePath}: ${error instanceof Error ? error.message : String(error)}`;
+        outputChannel.appendLine(`Error: ${errorMsg}`);
+        vscode.window.showErrorMessage(errorMsg);
+      }
+    },
+  );
+
+  // command to refresh the project files view
+  const refreshProjectViewCommand = vscode.commands.registerCommand(
+    'claudesync.refreshProjectView',
+    () => projectTreeProvider.refresh(true),
+  );
+
+  // command to sync a single file from the explorer or project files view
+  const syncFileCommand = vscode.commands.registerCommand(
+    'claudesync.syncFile',
+    async (target?: vscode.Uri | ProjectTreeItem) => {
+      const uri = target instanceof vscode.Uri ? target : target?.resourceUri;
+      if (!uri) {
+        vscode.window.showErrorMessage('No file selected');
+        return;
+      }
+      await syncFiles([uri]);
+    },
+  );
+
+  // command to open the copy of a file stored in the Claude project
+  const openRemoteFileCommand = vscode.commands.registerCommand(
+    'claudesync.openRemoteFile',
+    async (item?: ProjectTreeItem) => {
+      if (!item?.relativePath) {
+        vscode.window.showErrorMessage('No file selected');
+        return;
+      }
+
+      const folderSync = item.workspaceFolder
+        ? getFolderSync(item.workspaceFolder)
+        : await resolveFolderSync();
+      if (!folderSync) {
+        return;
+      }
+
+      try {
+        const content = await folderSync.syncManager.getRemoteFileContent(
+          item.relativePath,
+        );
+        if (content === undefined) {
+          vscode.window.showErrorMessage(
+            `'${item.relativePath}' does not exist in the Claude project`,
+          );
+          return;
+        }
+        await vscode.window.showTextDocument(
+          ConflictResolver.virtualUri('remote', item.relativePath, content),
+          { preview: true },
+        );
+      } catch (error) {
+        const errorMsg = `Failed to open remote file: ${error instanceof Error ? error.message : String(error)}`;
+        outputChannel.appendLine(`Error: ${errorMsg}`);
+        vscode.window.showErrorMessage(errorMsg);
+      }
+    },
+  );
+
+  // command to delete a file from the Claude project only
+  const deleteRemoteFileCommand = vscode.commands.registerCommand(
+    'claudesync.deleteRemoteFile',
+    async (item?: ProjectTreeItem) => {
+      if (!item?.relativePath) {
+        vscode.window.showErrorMessage('No file selected');
+        return;
+      }
+
+      const folderSync = item.workspaceFolder
+        ? getFolderSync(item.workspaceFolder)
+        : await resolveFolderSync();
+      if (!folderSync) {
+        return;
+      }
+
+      const confirm = await vscode.window.showWarningMessage(
+        `Delete '${item.relativePath}' from the Claude project? The local file is not affected.`,
+        { modal: true },
+        'Delete',
+      );
+      if (confirm !== 'Delete') {
+        return;
+      }
+
+      const result = await folderSync.syncManager.deleteRemoteFile(
+        item.relativePath,
+      );
+      if (result.success) {
+        vscode.window.showInformationMessage(
+          result.message || 'Remote file deleted',
+        );
+        projectTreeProvider.refresh();
+      } else {
+        const errorMsg = result.error
+          ? `${result.message || 'Error'}: ${result.error.message}`
+          : result.message || 'Unknown error';
+        outputChannel.appendLine(`Failed to delete remote file: ${errorMsg}`);
+        vscode.window.showErrorMessage(errorMsg);
+      }
+    },
+  );
+
   // command to show output channel
   const showOutputCommand = vscode.commands.registerCommand(
     'claudesync.showOutput',
@@ -804,7 +1604,10 @@ export async function activate(context: vscode.ExtensionContext) {
       // If we're enabling it, ensure gitignore is updated
       if (!currentValue) {
         await configManager.getConfig(); // Force config refresh
-        await new GitManager(outputChannel).ensureGitIgnore();
+        const gitManager = new GitManager(outputChannel);
+        for (const folder of vscode.workspace.workspaceFolders || []) {
+          await gitManager.ensureGitIgnore(folder);
+        }
       }
 
       vscode.window.showInformationMessage(
@@ -818,16 +1621,26 @@ export async function activate(context: vscode.ExtensionContext) {
     initProjectCommand,
     syncCurrentFileCommand,
     syncWorkspaceCommand,
+    previewSyncCommand,
+    syncGitRevisionCommand,
+    uploadChangesCommand,
+    pullFromProjectCommand,
     syncProjectInstructionsCommand,
     updateProjectInstructionsCommand,
+    previewProjectInstructionsCommand,
     configureAutoSyncCommand,
     configureStartupSyncCommand,
     configureCleanupRemoteCommand,
     openInBrowserCommand,
     excludeFromSyncCommand,
     includeInSyncCommand,
+    explainFileStatusCommand,
     showOutputCommand,
     toggleGitignoreCommand,
+    refreshProjectViewCommand,
+    syncFileCommand,
+    openRemoteFileCommand,
+    deleteRemoteFileCommand,
   );
 
   // add file watcher to disposables if it exists
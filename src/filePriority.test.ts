@@ -0,0 +1,61 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { FilePrioritizer, selectWithinBudget } from './filePriority';
+
+const DAY = 86_400_000;
+
+describe('FilePrioritizer', () => {
+  const now = Date.now();
+  const prioritizer = new FilePrioritizer(
+    [
+      { files: 'src/', weight: 20 },
+      { files: '*.test.ts', weight: -40 },
+    ],
+    {
+      openFiles: new Set(['src/open.ts']),
+      instructions: 'Start with src/core.ts.',
+      modifiedAt: new Map([
+        ['src/today.ts', now],
+        ['src/week.ts', now - 7 * DAY],
+        ['src/old.ts', now - 30 * DAY],
+      ]),
+      now,
+    },
+  );
+
+  it('adds up the weights of matching rules', () => {
+    assert.equal(prioritizer.score('README.md'), 0);
+    assert.equal(prioritizer.score('src/a.ts'), 20);
+    assert.equal(prioritizer.score('src/a.test.ts'), -20);
+  });
+
+  it('prefers referenced, open and recently edited files', () => {
+    assert.equal(prioritizer.score('src/core.ts'), 120);
+    assert.equal(prioritizer.score('src/open.ts'), 70);
+    assert.equal(prioritizer.score('src/today.ts'), 50);
+    assert.equal(prioritizer.score('src/week.ts'), 35);
+    assert.equal(prioritizer.score('src/old.ts'), 20);
+  });
+});
+
+describe('selectWithinBudget', () => {
+  it('fills the budget by score, skipping files that do not fit', () => {
+    const { selected, dropped } = selectWithinBudget(
+      [
+        { path: 'low.ts', tokens: 10, score: 0 },
+        { path: 'big.ts', tokens: 80, score: 50 },
+        { path: 'top.ts', tokens: 50, score: 100 },
+        { path: 'small.ts', tokens: 30, score: 50 },
+      ],
+      100,
+    );
+    assert.deepEqual(
+      selected.map((f) => f.path),
+      ['top.ts', 'small.ts', 'low.ts'],
+    );
+    assert.deepEqual(
+      dropped.map((f) => f.path),
+      ['big.ts'],
+    );
+  });
+});
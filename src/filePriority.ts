@@ -0,0 +1,93 @@
+import ignore from 'ignore';
+import type { PriorityRule } from './types';
+
+// weights of the built-in signals, comparable to the weights of priority rules
+const REFERENCED_WEIGHT = 100;
+const OPEN_IN_EDITOR_WEIGHT = 50;
+const RECENT_EDIT_WEIGHT = 30;
+// the recent edit weight fades to zero over this many days
+const RECENT_EDIT_DAYS = 14;
+
+export interface PrioritySignals {
+  // workspace-relative paths of files open in an editor tab
+  openFiles: Set<string>;
+  // text of .projectinstructions, files whose path appears in it are preferred
+  instructions?: string;
+  // last modification time of each file, in milliseconds
+  modifiedAt: Map<string, number>;
+  now: number;
+}
+
+export interface RankedFile {
+  path: string;
+  tokens: number;
+  score: number;
+}
+
+/**
+ * Scores files by how much Claude is likely to need them: the weights of every
+ * matching priority rule, plus bonuses for files referenced from .projectinstructions,
+ * open in an editor or edited recently.
+ */
+export class FilePrioritizer {
+  private rules: { matcher: ReturnType<typeof ignore>; weight: number }[];
+
+  constructor(
+    rules: PriorityRule[],
+    private readonly signals: PrioritySignals,
+  ) {
+    this.rules = rules.map((rule) => ({
+      matcher: ignore().add(rule.files),
+      weight: rule.weight,
+    }));
+  }
+
+  public score(relativePath: string): number {
+    let score = 0;
+    for (const { matcher, weight } of this.rules) {
+      if (matcher.ignores(relativePath)) {
+        score += weight;
+      }
+    }
+    if (this.signals.instructions?.includes(relativePath)) {
+      score += REFERENCED_WEIGHT;
+    }
+    if (this.signals.openFiles.has(relativePath)) {
+      score += OPEN_IN_EDITOR_WEIGHT;
+    }
+    const modifiedAt = this.signals.modifiedAt.get(relativePath);
+    if (modifiedAt !== undefined) {
+      const ageDays = (this.signals.now - modifiedAt) / 86_400_000;
+      score += Math.round(
+        RECENT_EDIT_WEIGHT * Math.max(0, 1 - ageDays / RECENT_EDIT_DAYS),
+      );
+    }
+    return score;
+  }
+}
+
+/**
+ * Fills the available tokens greedily, highest score first and smaller files first on
+ * equal scores. A file that doesn't fit is skipped, so smaller files below it can still
+ * be selected.
+ */
+export function selectWithinBudget(
+  files: RankedFile[],
+  available: number,
+): { selected: RankedFile[]; dropped: RankedFile[] } {
+  const selected: RankedFile[] = [];
+  const dropped: RankedFile[] = [];
+  let remaining = available;
+  const ranked = [...files].sort(
+    (a, b) => b.score - a.score || a.tokens - b.tokens,
+  );
+  for (const file of ranked) {
+    if (file.tokens <= remaining) {
+      selected.push(file);
+      remaining -= file.tokens;
+    } else {
+      dropped.push(file);
+    }
+  }
+  return { selected, dropped };
+}
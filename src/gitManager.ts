@@ -1,8 +1,41 @@
+import { execFile } from 'node:child_process';
+import { promisify } from 'node:util';
 import * as vscode from 'vscode';
 
+const execFileAsync = promisify(execFile);
+const MAX_OUTPUT = 64 * 1024 * 1024;
+
+export interface GitRef {
+  name: string;
+  kind: 'branch' | 'remote' | 'tag';
+}
+
+export interface GitChanges {
+  base: string;
+  // where HEAD branched off base, the diff starts here
+  mergeBase: string;
+  // undefined when HEAD is detached
+  branch?: string;
+  commits: { hash: string; message: string }[];
+  // status is git's letter, e.g. M or A, or ? for untracked files
+  files: { status: string; path: string }[];
+  // changed files left out because include rejected them
+  excluded: number;
+  diff: string;
+}
+
+// paths passed to one git diff, keeping the command line short on every platform
+const PATHSPEC_BATCH = 100;
+
 export class GitManager {
   private static readonly GITIGNORE_FILE = '.gitignore';
-  private static readonly CLAUDESYNC_IGNORE = '.vscode/claudesync.json';
+  private static readonly CLAUDESYNC_IGNORE = [
+    '.vscode/claudesync.json',
+    '.vscode/claudesync.manifest.json',
+    '.vscode/claudesync.base/',
+    '.vscode/claudesync.binary.json',
+    '.vscode/claudesync.projects/',
+  ];
   private outputChannel: vscode.OutputChannel;
 
   constructor(outputChannel: vscode.OutputChannel) {
@@ -10,17 +43,17 @@ export class GitManager {
   }
 
   /**
-   * Ensures that .vscode/claudesync.json is added to .gitignore if the project is a git repository
+   * Ensures that .vscode/claudesync.json and the sync manifest are added to .gitignore if the project is a git repository
    * and the addToGitignore setting is enabled
    */
-  public async ensureGitIgnore(): Promise<void> {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-    if (!workspaceFolder) {
-      return;
-    }
-
+  public async ensureGitIgnore(
+    workspaceFolder: vscode.WorkspaceFolder,
+  ): Promise<void> {
     // Check if addToGitignore is enabled
-    const config = vscode.workspace.getConfiguration('claudesync');
+    const config = vscode.workspace.getConfiguration(
+      'claudesync',
+      workspaceFolder.uri,
+    );
     const addToGitignore = config.get<boolean>('addToGitignore') || false;
     if (!addToGitignore) {
       return;
@@ -48,9 +81,9 @@ export class GitManager {
       const fileContent = await vscode.workspace.fs.readFile(gitignorePath);
       currentContent = Buffer.from(fileContent).toString('utf8');
 
-      if (this.hasClaudeSyncIgnore(currentContent)) {
+      if (this.getMissingIgnoreEntries(currentContent).length === 0) {
         this.outputChannel.appendLine(
-          'Configuration file already in .gitignore.',
+          'Configuration files already in .gitignore.',
         );
         return;
       }
@@ -64,17 +97,289 @@ export class GitManager {
       gitignorePath,
       Buffer.from(newContent, 'utf8'),
     );
-    this.outputChannel.appendLine('Added configuration file to .gitignore.');
+    this.outputChannel.appendLine('Added configuration files to .gitignore.');
   }
 
-  private hasClaudeSyncIgnore(content: string): boolean {
-    const lines = content.split(/\r?\n/);
-    return lines.some((line) => line.trim() === GitManager.CLAUDESYNC_IGNORE);
+  private getMissingIgnoreEntries(content: string): string[] {
+    const lines = new Set(content.split(/\r?\n/).map((line) => line.trim()));
+    return GitManager.CLAUDESYNC_IGNORE.filter((entry) => !lines.has(entry));
   }
 
   private addClaudeSyncIgnore(content: string): string {
     // ensure content ends with newline
-    const normalizedContent = content.endsWith('\n') ? content : `${content}\n`;
-    return `${normalizedContent + GitManager.CLAUDESYNC_IGNORE}\n`;
+    const normalizedContent =
+      content === '' || content.endsWith('\n') ? content : `${content}\n`;
+    const missing = this.getMissingIgnoreEntries(content);
+    return `${normalizedContent + missing.join('\n')}\n`;
+  }
+
+  // the checked out commit, or undefined if the folder isn't in a git repository
+  public async getHeadCommit(folder: vscode.Uri): Promise<string | undefined> {
+    try {
+      return (await this.git(folder, ['rev-parse', 'HEAD'])).trim();
+    } catch {
+      return undefined;
+    }
+  }
+
+  // undefined when HEAD is detached or the folder isn't in a git repository
+  public async getCurrentBranch(
+    folder: vscode.Uri,
+  ): Promise<string | undefined> {
+    try {
+      return (
+        (
+          await this.git(folder, ['symbolic-ref', '--short', '-q', 'HEAD'])
+        ).trim() || undefined
+      );
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Calls listener whenever the repository's HEAD file is written, i.e. on every checkout.
+   * Undefined if the folder isn't in a git repository.
+   */
+  public async watchHead(
+    folder: vscode.Uri,
+    listener: () => void,
+  ): Promise<vscode.Disposable | undefined> {
+    let gitDir: string;
+    try {
+      // also finds the git directory of worktrees and folders nested in a repository
+      gitDir = (
+        await this.git(folder, ['rev-parse', '--absolute-git-dir'])
+      ).trim();
+    } catch {
+      return undefined;
+    }
+    const watcher = vscode.workspace.createFileSystemWatcher(
+      new vscode.RelativePattern(vscode.Uri.file(gitDir), 'HEAD'),
+    );
+    watcher.onDidCreate(listener);
+    watcher.onDidChange(listener);
+    return watcher;
+  }
+
+  /**
+   * Paths relative to the folder of files changed since a commit: committed since, staged,
+   * modified or deleted in the working tree, or untracked and not ignored. Undefined if
+   * git doesn't know the commit, e.g. after a rebase, or can't be run.
+   */
+  public async getChangedFiles(
+    folder: vscode.Uri,
+    since: string,
+  ): Promise<string[] | undefined> {
+    try {
+      await this.git(folder, ['cat-file', '-e', `${since}^{commit}`]);
+      const [changed, untracked] = await Promise.all([
+        // renames are listed as a deletion and an addition
+        this.git(folder, [
+          'diff',
+          '--name-only',
+          '--no-renames',
+          '--relative',
+          '-z',
+          since,
+        ]),
+        this.git(folder, ['ls-files', '--others', '--exclude-standard', '-z']),
+      ]);
+      return [
+        ...new Set([...changed.split('\0'), ...untracked.split('\0')]),
+      ].filter(Boolean);
+    } catch (error) {
+      this.outputChannel.appendLine(
+        `Failed to list changes since ${since}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+      return undefined;
+    }
+  }
+
+  // local branches, remote branches and tags, most recently committed first
+  public async listRefs(folder: vscode.Uri): Promise<GitRef[]> {
+    const output = await this.git(folder, [
+      'for-each-ref',
+      '--sort=-committerdate',
+      '--format=%(refname)',
+      'refs/heads',
+      'refs/remotes',
+      'refs/tags',
+    ]);
+    const refs: GitRef[] = [];
+    for (const ref of output.split('\n').filter(Boolean)) {
+      if (ref.startsWith('refs/heads/')) {
+        refs.push({ name: ref.slice('refs/heads/'.length), kind: 'branch' });
+      } else if (ref.startsWith('refs/tags/')) {
+        refs.push({ name: ref.slice('refs/tags/'.length), kind: 'tag' });
+      } else if (!ref.endsWith('/HEAD')) {
+        refs.push({ name: ref.slice('refs/remotes/'.length), kind: 'remote' });
+      }
+    }
+    return refs;
+  }
+
+  // the commit a branch, tag or abbreviated hash points to, undefined if there is none
+  public async resolveCommit(
+    folder: vscode.Uri,
+    revision: string,
+  ): Promise<string | undefined> {
+    try {
+      return (
+        await this.git(folder, [
+          'rev-parse',
+          '--verify',
+          '--quiet',
+          `${revision}^{commit}`,
+        ])
+      ).trim();
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Paths relative to the folder of the files in a commit. Symlinks and submodules are
+   * left out since they have no content of their own to sync.
+   */
+  public async listFilesAt(
+    folder: vscode.Uri,
+    commit: string,
+  ): Promise<string[]> {
+    const output = await this.git(folder, ['ls-tree', '-r', '-z', commit]);
+    const paths: string[] = [];
+    for (const entry of output.split('\0').filter(Boolean)) {
+      // <mode> <type> <object>\t<path>
+      const tab = entry.indexOf('\t');
+      const [mode, type] = entry.slice(0, tab).split(' ');
+      if (type === 'blob' && mode !== '120000') {
+        paths.push(entry.slice(tab + 1));
+      }
+    }
+    return paths;
+  }
+
+  /**
+   * What changed since HEAD branched off base: the commits in between, and the diff of
+   * the working tree, uncommitted changes included, against the merge base. Files
+   * include rejects are left out of both. Undefined if git doesn't know base or it
+   * shares no history with HEAD.
+   */
+  public async getChanges(
+    folder: vscode.Uri,
+    base: string,
+    include: (path: string) => Promise<boolean> = async () => true,
+  ): Promise<GitChanges | undefined> {
+    const baseCommit = await this.resolveCommit(folder, base);
+    if (!baseCommit) {
+      return undefined;
+    }
+    let mergeBase: string;
+    try {
+      mergeBase = (
+        await this.git(folder, ['merge-base', baseCommit, 'HEAD'])
+      ).trim();
+    } catch {
+      return undefined;
+    }
+
+    const [log, nameStatus, untracked, branch] = await Promise.all([
+      this.git(folder, [
+        'log',
+        '-z',
+        '--reverse',
+        '--format=%h%n%B',
+        `${mergeBase}..HEAD`,
+      ]),
+      this.git(folder, [
+        'diff',
+        '--name-status',
+        '--no-renames',
+        '--relative',
+        '-z',
+        mergeBase,
+      ]),
+      this.git(folder, ['ls-files', '--others', '--exclude-standard', '-z']),
+      this.getCurrentBranch(folder),
+    ]);
+
+    const commits = log
+      .split('\0')
+      .filter(Boolean)
+      .map((entry) => {
+        const newline = entry.indexOf('\n');
+        return {
+          hash: entry.slice(0, newline),
+          message: entry.slice(newline + 1).trim(),
+        };
+      });
+    // -z lists each status followed by its path
+    const changed: GitChanges['files'] = [];
+    const fields = nameStatus.split('\0');
+    for (let i = 0; i + 1 < fields.length; i += 2) {
+      changed.push({ status: fields[i], path: fields[i + 1] });
+    }
+    for (const path of untracked.split('\0').filter(Boolean)) {
+      changed.push({ status: '?', path });
+    }
+    const files: GitChanges['files'] = [];
+    for (const file of changed) {
+      if (await include(file.path)) {
+        files.push(file);
+      }
+    }
+
+    const args = [
+      'diff',
+      '--no-renames',
+      '--relative',
+      '--no-color',
+      mergeBase,
+    ];
+    let diff = '';
+    if (files.length === changed.length) {
+      diff = await this.git(folder, args);
+    } else {
+      const tracked = files
+        .filter((file) => file.status !== '?')
+        .map((file) => `:(literal)${file.path}`);
+      for (let i = 0; i < tracked.length; i += PATHSPEC_BATCH) {
+        diff += await this.git(folder, [
+          ...args,
+          '--',
+          ...tracked.slice(i, i + PATHSPEC_BATCH),
+        ]);
+      }
+    }
+    return {
+      base,
+      mergeBase,
+      branch,
+      commits,
+      files,
+      excluded: changed.length - files.length,
+      diff,
+    };
+  }
+
+  public async readFileAt(
+    folder: vscode.Uri,
+    commit: string,
+    relativePath: string,
+  ): Promise<Uint8Array> {
+    const { stdout } = await execFileAsync(
+      'git',
+      ['cat-file', 'blob', `${commit}:./${relativePath}`],
+      { cwd: folder.fsPath, encoding: 'buffer', maxBuffer: MAX_OUTPUT },
+    );
+    return stdout;
+  }
+
+  private async git(folder: vscode.Uri, args: string[]): Promise<string> {
+    const { stdout } = await execFileAsync('git', args, {
+      cwd: folder.fsPath,
+      maxBuffer: MAX_OUTPUT,
+    });
+    return stdout;
   }
 }
@@ -0,0 +1,70 @@
+import * as assert from 'node:assert/strict';
+import { promises as fs } from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { after, before, describe, it } from 'node:test';
+import * as vscode from 'vscode';
+import { GitignoreManager } from './gitignoreManager';
+
+// ignore files are read from a temporary folder through the mock vscode API
+describe('GitignoreManager', () => {
+  const manager = new GitignoreManager({
+    appendLine: () => {},
+  } as unknown as vscode.OutputChannel);
+  let root: string;
+
+  before(async () => {
+    root = await fs.mkdtemp(path.join(os.tmpdir(), 'claudesync-'));
+    const files: Record<string, string> = {
+      '.gitignore': 'dist/\n*.log\nsecrets.json\n',
+      'packages/app/.gitignore': '!keep.log\ngenerated/\n',
+      // inside an ignored directory, so git never reads it
+      'dist/.gitignore': '!*\n',
+      '.claudesyncignore': 'docs/drafts/\n!secrets.json\n',
+    };
+    for (const [file, content] of Object.entries(files)) {
+      await fs.mkdir(path.join(root, path.dirname(file)), { recursive: true });
+      await fs.writeFile(path.join(root, file), content);
+    }
+    await manager.loadGitignore(vscode.Uri.file(root));
+  });
+
+  after(async () => {
+    await fs.rm(root, { recursive: true, force: true });
+  });
+
+  it('names the ignore file and rule that excluded a file', () => {
+    assert.deepEqual(manager.getIgnoreMatch('dist/index.js'), {
+      source: 'gitignore',
+      file: '.gitignore',
+      pattern: 'dist/',
+    });
+    assert.deepEqual(manager.getIgnoreMatch('packages/app/generated/a.ts'), {
+      source: 'gitignore',
+      file: 'packages/app/.gitignore',
+      pattern: 'generated/',
+    });
+  });
+
+  it('lets deeper .gitignore files override their parents', () => {
+    assert.equal(manager.getIgnoreMatch('packages/app/keep.log'), undefined);
+    assert.equal(
+      manager.getIgnoreMatch('packages/app/other.log')?.file,
+      '.gitignore',
+    );
+  });
+
+  it('skips .gitignore files inside ignored directories', () => {
+    assert.equal(manager.getIgnoreMatch('dist/a.js')?.pattern, 'dist/');
+  });
+
+  it('applies .claudesyncignore after every .gitignore', () => {
+    assert.deepEqual(manager.getIgnoreMatch('docs/drafts/a.md'), {
+      source: 'claudesyncignore',
+      file: '.claudesyncignore',
+      pattern: 'docs/drafts/',
+    });
+    assert.equal(manager.getIgnoreMatch('secrets.json'), undefined);
+    assert.equal(manager.getIgnoreMatch('src/index.ts'), undefined);
+  });
+});
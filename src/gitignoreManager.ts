@@ -1,42 +1,150 @@
 import ignore from 'ignore';
 import * as vscode from 'vscode';
 
+export type IgnoreSource = 'gitignore' | 'claudesyncignore';
+
+export interface IgnoreMatch {
+  source: IgnoreSource;
+  // workspace-relative path of the ignore file and the rule that excluded the file
+  file: string;
+  pattern?: string;
+}
+
+interface IgnoreFile {
+  // directory of the ignore file relative to the workspace folder, '' for the root
+  dir: string;
+  name: string;
+  ig: ReturnType<typeof ignore>;
+}
+
+interface Evaluation {
+  ignored: boolean;
+  // the ignore file and rule that decided the outcome, if any
+  file?: IgnoreFile;
+  pattern?: string;
+}
+
+/**
+ * Evaluates every .gitignore in the workspace folder the way git does, with rules in
+ * deeper directories taking precedence, then applies .claudesyncignore files on top so
+ * they can exclude more files or re-include files that are only ignored for git.
+ */
 export class GitignoreManager {
-  private ig: ReturnType<typeof ignore> | null = null;
+  public static readonly CLAUDESYNC_IGNORE = '.claudesyncignore';
+  private gitignores: IgnoreFile[] = [];
+  private claudesyncignores: IgnoreFile[] = [];
   private outputChannel: vscode.OutputChannel;
 
   constructor(outputChannel: vscode.OutputChannel) {
     this.outputChannel = outputChannel;
   }
 
-  public shouldIgnore(filePath: string): boolean {
-    if (!this.ig) {
-      return false;
+  public getIgnoreMatch(filePath: string): IgnoreMatch | undefined {
+    const git = evaluate(this.gitignores, filePath, { ignored: false });
+    const result = evaluate(this.claudesyncignores, filePath, git);
+    if (!result.ignored || !result.file) {
+      return undefined;
     }
-    return this.ig.ignores(filePath);
+    return {
+      source:
+        result.file.name === '.gitignore' ? 'gitignore' : 'claudesyncignore',
+      file: result.file.dir
+        ? `${result.file.dir}/${result.file.name}`
+        : result.file.name,
+      pattern: result.pattern,
+    };
   }
 
   public async loadGitignore(workspaceFolder: vscode.Uri): Promise<void> {
+    this.gitignores = [];
+    this.claudesyncignores = [];
+
+    let ignoreFiles: vscode.Uri[];
     try {
-      const gitignorePath = vscode.Uri.joinPath(workspaceFolder, '.gitignore');
-      const content = await vscode.workspace.fs.readFile(gitignorePath);
-      const gitignoreContent = Buffer.from(content).toString('utf8');
-      this.loadFromContent(gitignoreContent);
+      ignoreFiles = await vscode.workspace.findFiles(
+        new vscode.RelativePattern(
+          workspaceFolder,
+          `**/{.gitignore,${GitignoreManager.CLAUDESYNC_IGNORE}}`,
+        ),
+        '**/node_modules/**',
+      );
     } catch (error) {
-      this.outputChannel.appendLine(
-        'No .gitignore file found or failed to read it',
+      this.outputChannel.appendLine('Failed to search for ignore files');
+      return;
+    }
+
+    const rootPath = workspaceFolder.path.replace(/\/+$/, '');
+    const entries = ignoreFiles
+      .map((uri) => {
+        const relativePath = uri.path.slice(rootPath.length + 1);
+        const separator = relativePath.lastIndexOf('/');
+        return {
+          uri,
+          name: relativePath.slice(separator + 1),
+          dir: separator === -1 ? '' : relativePath.slice(0, separator),
+        };
+      })
+      // parents first, so deeper rules are applied last and win
+      .sort(
+        (a, b) => depth(a.dir) - depth(b.dir) || a.dir.localeCompare(b.dir),
       );
-      this.ig = null;
+
+    for (const entry of entries) {
+      const isGitignore = entry.name === '.gitignore';
+      // like git, skip .gitignore files inside directories that are already ignored
+      if (
+        isGitignore &&
+        entry.dir &&
+        evaluate(this.gitignores, `${entry.dir}/`, { ignored: false }).ignored
+      ) {
+        continue;
+      }
+
+      try {
+        const content = await vscode.workspace.fs.readFile(entry.uri);
+        const ig = ignore().add(Buffer.from(content).toString('utf8'));
+        (isGitignore ? this.gitignores : this.claudesyncignores).push({
+          dir: entry.dir,
+          name: entry.name,
+          ig,
+        });
+      } catch (error) {
+        this.outputChannel.appendLine(
+          `Failed to read ${entry.dir ? `${entry.dir}/` : ''}${entry.name}`,
+        );
+      }
     }
+
+    this.outputChannel.appendLine(
+      `Loaded ${this.gitignores.length} .gitignore and ${this.claudesyncignores.length} ${GitignoreManager.CLAUDESYNC_IGNORE} file(s)`,
+    );
   }
+}
 
-  public loadFromContent(content: string): void {
-    try {
-      this.ig = ignore().add(content);
-      this.outputChannel.appendLine('Successfully loaded gitignore patterns');
-    } catch (error) {
-      this.outputChannel.appendLine('Failed to parse gitignore content');
-      this.ig = null;
+function depth(dir: string): number {
+  return dir ? dir.split('/').length : 0;
+}
+
+// applies ignore files in order, each one scoped to paths below its own directory
+function evaluate(
+  files: IgnoreFile[],
+  filePath: string,
+  initial: Evaluation,
+): Evaluation {
+  let result = initial;
+  for (const file of files) {
+    const { dir, ig } = file;
+    if (dir && !filePath.startsWith(`${dir}/`)) {
+      continue;
+    }
+    const relativePath = dir ? filePath.slice(dir.length + 1) : filePath;
+    if (!relativePath) {
+      continue;
+    }
+    const { ignored, unignored, rule } = ig.test(relativePath);
+    if (ignored || unignored) {
+      result = { ignored, file, pattern: rule?.pattern };
     }
   }
+  return result;
 }
@@ -0,0 +1,75 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import { type TemplateContext, renderTemplate } from './instructionsTemplate';
+
+const context = (
+  files: Record<string, string> = {},
+  branch: string | undefined = 'main',
+): TemplateContext => ({
+  variables: { project: 'ClaudeSync' },
+  branch,
+  readFile: async (path) => files[path],
+});
+
+describe('renderTemplate', () => {
+  it('inserts variables and keeps unknown ones with a warning', async () => {
+    assert.deepEqual(
+      await renderTemplate('About {{ project }}: {{missing}}', context()),
+      {
+        text: 'About ClaudeSync: {{missing}}',
+        warnings: ['Unknown variable {{missing}}'],
+      },
+    );
+  });
+
+  it('renders included files, which may include others', async () => {
+    const { text, warnings } = await renderTemplate(
+      'Start\n{{include docs/a.md}}\nEnd',
+      context({
+        'docs/a.md': 'A for {{project}}\n{{include docs/b.md}}\n',
+        'docs/b.md': 'B\n',
+      }),
+    );
+    assert.equal(text, 'Start\nA for ClaudeSync\nB\nEnd');
+    assert.deepEqual(warnings, []);
+  });
+
+  it('stops at includes of a missing file or of itself', async () => {
+    const { text, warnings } = await renderTemplate(
+      '{{include loop.md}} {{include gone.md}}',
+      context({ 'loop.md': '{{include loop.md}}' }),
+    );
+    assert.equal(text, '{{include loop.md}} {{include gone.md}}');
+    assert.deepEqual(warnings, [
+      '{{include loop.md}} includes itself',
+      '{{include gone.md}}: file not found',
+    ]);
+  });
+
+  it('keeps the part of a branch block matching the branch', async () => {
+    const template =
+      'Always\n{{#branch release/*}}\nRelease\n{{else}}\nDevelopment\n{{/branch}}\nDone';
+    assert.equal(
+      (await renderTemplate(template, context({}, 'release/1.0'))).text,
+      'Always\nRelease\nDone',
+    );
+    assert.equal(
+      (await renderTemplate(template, context({}, 'main'))).text,
+      'Always\nDevelopment\nDone',
+    );
+    assert.equal(
+      (await renderTemplate(template, context({}, undefined))).text,
+      'Always\nDevelopment\nDone',
+    );
+  });
+
+  it('warns about a branch block that is never closed', async () => {
+    const { warnings } = await renderTemplate(
+      '{{#branch main}}\nMain',
+      context(),
+    );
+    assert.deepEqual(warnings, [
+      '{{#branch main}} is never closed, it runs to the end of the file',
+    ]);
+  });
+});
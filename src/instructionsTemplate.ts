@@ -0,0 +1,198 @@
+import { matchesBranch } from './branchProjects';
+
+// included files can include others, up to this depth
+const MAX_INCLUDE_DEPTH = 5;
+const TAG = /\{\{\s*([#/]?)([\w-]+)(?:\s+([^}]*?))?\s*\}\}/g;
+
+export interface TemplateContext {
+  variables: Record<string, string>;
+  // undefined when HEAD is detached or the folder isn't in a git repository
+  branch?: string;
+  // reads a file relative to the workspace folder, undefined if it can't be read; an
+  // error rejects the include, with its message as the warning
+  readFile: (path: string) => Promise<string | undefined>;
+}
+
+export interface RenderedTemplate {
+  text: string;
+  // problems found while rendering, the affected tags are left as they are
+  warnings: string[];
+}
+
+type TemplateNode =
+  | { kind: 'text'; text: string }
+  | { kind: 'variable'; name: string; tag: string }
+  | { kind: 'include'; path: string; tag: string }
+  | {
+      kind: 'branch';
+      pattern: string;
+      matched: TemplateNode[];
+      otherwise: TemplateNode[];
+    };
+
+interface OpenBlock {
+  node: Extract<TemplateNode, { kind: 'branch' }>;
+  inElse: boolean;
+}
+
+/**
+ * Renders .projectinstructions before it is uploaded. {{name}} inserts a variable,
+ * {{include path}} the rendered content of another file of the folder, and
+ * {{#branch pattern}}...{{else}}...{{/branch}} keeps the first part only on branches
+ * matching the pattern, the part after {{else}} on others.
+ */
+export async function renderTemplate(
+  template: string,
+  context: TemplateContext,
+): Promise<RenderedTemplate> {
+  const warnings: string[] = [];
+  const text = await render(template, context, warnings, []);
+  return { text, warnings };
+}
+
+async function render(
+  template: string,
+  context: TemplateContext,
+  warnings: string[],
+  includes: string[],
+): Promise<string> {
+  const nodes = parse(template, warnings);
+  return renderNodes(nodes, context, warnings, includes);
+}
+
+function parse(template: string, warnings: string[]): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const open: OpenBlock[] = [];
+  const current = () => {
+    const block = open[open.length - 1];
+    if (!block) {
+      return root;
+    }
+    return block.inElse ? block.node.otherwise : block.node.matched;
+  };
+
+  let last = 0;
+  for (const match of template.matchAll(TAG)) {
+    const [tag, marker, name, argument = ''] = match;
+    let start = match.index;
+    let end = match.index + tag.length;
+    // block tags on a line of their own don't leave an empty line behind
+    if (marker || name === 'else') {
+      const lineStart = template.lastIndexOf('\n', start - 1) + 1;
+      const rest = /^[ \t]*(\r?\n|$)/.exec(template.slice(end));
+      if (rest && !template.slice(lineStart, start).trim()) {
+        start = Math.max(lineStart, last);
+        end += rest[0].length;
+      }
+    }
+    current().push({ kind: 'text', text: template.slice(last, start) });
+    last = end;
+
+    if (marker === '#' && name === 'branch') {
+      const node: OpenBlock['node'] = {
+        kind: 'branch',
+        pattern: argument.trim(),
+        matched: [],
+        otherwise: [],
+      };
+      current().push(node);
+      open.push({ node, inElse: false });
+    } else if (marker === '/' && name === 'branch' && open.length) {
+      open.pop();
+    } else if (!marker && name === 'else' && open.length) {
+      open[open.length - 1].inElse = true;
+    } else if (!marker && name === 'include' && argument.trim()) {
+      current().push({ kind: 'include', path: argument.trim(), tag });
+    } else if (!marker && !argument) {
+      current().push({ kind: 'variable', name, tag });
+    } else {
+      warnings.push(`Unknown tag ${tag}`);
+      current().push({ kind: 'text', text: tag });
+    }
+  }
+  current().push({ kind: 'text', text: template.slice(last) });
+
+  for (const { node } of open) {
+    warnings.push(
+      `{{#branch ${node.pattern}}} is never closed, it runs to the end of the file`,
+    );
+  }
+  return root;
+}
+
+async function renderNodes(
+  nodes: TemplateNode[],
+  context: TemplateContext,
+  warnings: string[],
+  includes: string[],
+): Promise<string> {
+  let result = '';
+  for (const node of nodes) {
+    switch (node.kind) {
+      case 'text':
+        result += node.text;
+        break;
+      case 'variable':
+        if (node.name in context.variables) {
+          result += context.variables[node.name];
+        } else {
+          warnings.push(`Unknown variable ${node.tag}`);
+          result += node.tag;
+        }
+        break;
+      case 'include':
+        result += await renderInclude(node, context, warnings, includes);
+        break;
+      case 'branch': {
+        const matched =
+          context.branch !== undefined &&
+          matchesBranch(node.pattern, context.branch);
+        result += await renderNodes(
+          matched ? node.matched : node.otherwise,
+          context,
+          warnings,
+          includes,
+        );
+        break;
+      }
+    }
+  }
+  return result;
+}
+
+async function renderInclude(
+  node: Extract<TemplateNode, { kind: 'include' }>,
+  context: TemplateContext,
+  warnings: string[],
+  includes: string[],
+): Promise<string> {
+  if (includes.includes(node.path)) {
+    warnings.push(`${node.tag} includes itself`);
+    return node.tag;
+  }
+  if (includes.length >= MAX_INCLUDE_DEPTH) {
+    warnings.push(
+      `${node.tag} is nested more than ${MAX_INCLUDE_DEPTH} includes deep`,
+    );
+    return node.tag;
+  }
+  let content: string | undefined;
+  try {
+    content = await context.readFile(node.path);
+  } catch (error) {
+    warnings.push(
+      `${node.tag}: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return node.tag;
+  }
+  if (content === undefined) {
+    warnings.push(`${node.tag}: file not found`);
+    return node.tag;
+  }
+  // the tag's own line ends the included text
+  const text = await render(content, context, warnings, [
+    ...includes,
+    node.path,
+  ]);
+  return text.replace(/\r?\n$/, '');
+}
@@ -0,0 +1,57 @@
+import * as assert from 'node:assert/strict';
+import { describe, it } from 'node:test';
+import {
+  estimateKnowledge,
+  estimateTokens,
+  formatKnowledgeReport,
+  formatKnowledgeUsage,
+  formatTokens,
+  isOverBudget,
+} from './knowledgeBudget';
+
+describe('knowledge budget', () => {
+  const entries = [
+    { path: 'a.ts', size: 400, tokens: 100 },
+    { path: 'b.ts', size: 4000, tokens: 1000 },
+  ];
+
+  it('estimates about four characters per token', () => {
+    assert.equal(estimateTokens(0), 0);
+    assert.equal(estimateTokens(9), 3);
+  });
+
+  it('sums the entries and lists the largest first', () => {
+    const estimate = estimateKnowledge(entries, 1000);
+    assert.equal(estimate.files, 2);
+    assert.equal(estimate.size, 4400);
+    assert.equal(estimate.tokens, 1100);
+    assert.deepEqual(
+      estimate.largest.map((entry) => entry.path),
+      ['b.ts', 'a.ts'],
+    );
+  });
+
+  it('is only over a budget that is set', () => {
+    assert.equal(isOverBudget(estimateKnowledge(entries, 1000)), true);
+    assert.equal(isOverBudget(estimateKnowledge(entries, 2000)), false);
+    assert.equal(isOverBudget(estimateKnowledge(entries, 0)), false);
+  });
+
+  it('formats usage and the report', () => {
+    assert.equal(formatTokens(999), '999');
+    assert.equal(formatTokens(184_230), '184.2k');
+    assert.equal(formatTokens(200_000), '200k');
+    assert.equal(
+      formatKnowledgeUsage(estimateKnowledge(entries, 2000)),
+      '~1.1k of 2k tokens (55%)',
+    );
+    assert.equal(
+      formatKnowledgeUsage(estimateKnowledge(entries, 0)),
+      '~1.1k tokens',
+    );
+    assert.equal(
+      formatKnowledgeReport(estimateKnowledge(entries, 0)),
+      'Project knowledge after sync: ~1.1k tokens in 2 file(s)\nLargest files:\n  ~1k tokens  b.ts\n  ~100 tokens  a.ts',
+    );
+  });
+});
@@ -0,0 +1,52 @@
+import type { KnowledgeEntry, KnowledgeEstimate } from './types';
+
+const LARGEST_COUNT = 10;
+
+// Claude's tokenizer isn't public; about four characters per token holds for code and prose
+export function estimateTokens(characters: number): number {
+  return Math.ceil(characters / 4);
+}
+
+export function estimateKnowledge(
+  entries: KnowledgeEntry[],
+  budget: number,
+): KnowledgeEstimate {
+  return {
+    files: entries.length,
+    size: entries.reduce((sum, entry) => sum + entry.size, 0),
+    tokens: entries.reduce((sum, entry) => sum + entry.tokens, 0),
+    budget,
+    largest: [...entries]
+      .sort((a, b) => b.tokens - a.tokens)
+      .slice(0, LARGEST_COUNT),
+  };
+}
+
+export function isOverBudget(estimate: KnowledgeEstimate): boolean {
+  return estimate.budget > 0 && estimate.tokens > estimate.budget;
+}
+
+// e.g. "~184.2k tokens" or "~184.2k of 200k tokens (92%)"
+export function formatKnowledgeUsage(estimate: KnowledgeEstimate): string {
+  if (!estimate.budget) {
+    return `~${formatTokens(estimate.tokens)} tokens`;
+  }
+  const percent = Math.round((estimate.tokens / estimate.budget) * 100);
+  return `~${formatTokens(estimate.tokens)} of ${formatTokens(estimate.budget)} tokens (${percent}%)`;
+}
+
+export function formatKnowledgeReport(estimate: KnowledgeEstimate): string {
+  return [
+    `Project knowledge after sync: ${formatKnowledgeUsage(estimate)} in ${estimate.files} file(s)`,
+    'Largest files:',
+    ...estimate.largest.map(
+      (entry) => `  ~${formatTokens(entry.tokens)} tokens  ${entry.path}`,
+    ),
+  ].join('\n');
+}
+
+export function formatTokens(tokens: number): string {
+  return tokens < 1000
+    ? `${tokens}`
+    : `${(tokens / 1000).toFixed(1).replace(/\.0$/, '')}k`;
+}
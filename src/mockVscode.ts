@@ -0,0 +1,330 @@
+import { promises as fs } from 'node:fs';
+import * as nodePath from 'node:path';
+
+/**
+ * The parts of the vscode API that SyncManager and its helpers use, backed by the local
+ * file system. `yarn test` bundles it in place of the vscode module, so sync scenarios
+ * run under plain node against a temporary folder.
+ */
+
+export enum FileType {
+  Unknown = 0,
+  File = 1,
+  Directory = 2,
+}
+
+export enum ProgressLocation {
+  SourceControl = 1,
+  Window = 10,
+  Notification = 15,
+}
+
+export class Uri {
+  private constructor(
+    public readonly scheme: string,
+    public readonly path: string,
+    public readonly query = '',
+  ) {}
+
+  public get fsPath(): string {
+    return this.path;
+  }
+
+  public static file(path: string): Uri {
+    return new Uri('file', nodePath.posix.normalize(path));
+  }
+
+  public static from(components: {
+    scheme: string;
+    path?: string;
+    query?: string;
+  }): Uri {
+    return new Uri(components.scheme, components.path ?? '', components.query);
+  }
+
+  public static joinPath(base: Uri, ...segments: string[]): Uri {
+    return new Uri(
+      base.scheme,
+      nodePath.posix.join(base.path, ...segments),
+      base.query,
+    );
+  }
+
+  public toString(): string {
+    return `${this.scheme}://${this.path}${this.query ? `?${this.query}` : ''}`;
+  }
+}
+
+export class Disposable {
+  constructor(private readonly callOnDispose: () => void = () => {}) {}
+
+  public dispose(): void {
+    this.callOnDispose();
+  }
+}
+
+export class RelativePattern {
+  constructor(
+    public readonly base: Uri,
+    public readonly pattern: string,
+  ) {}
+}
+
+export class TabInputText {
+  constructor(public readonly uri: Uri) {}
+}
+
+export interface WorkspaceFolder {
+  uri: Uri;
+  name: string;
+  index: number;
+}
+
+type MessageHandler = (
+  message: string,
+  items: string[],
+) => string | undefined | Promise<string | undefined>;
+
+// what a test scripted, reset with reset()
+const state: {
+  folders: WorkspaceFolder[];
+  settings: Map<string, unknown>;
+  answer: MessageHandler;
+  messages: string[];
+} = {
+  folders: [],
+  settings: new Map(),
+  answer: () => undefined,
+  messages: [],
+};
+
+// the folders open in the window, the first one names the workspace
+export function setWorkspaceFolders(paths: string[]): WorkspaceFolder[] {
+  state.folders = paths.map((path, index) => ({
+    uri: Uri.file(path),
+    name: nodePath.basename(path),
+    index,
+  }));
+  return state.folders;
+}
+
+// a setting as the user set it, e.g. setSetting('claudesync.sessionToken', 'sk-ant-…')
+export function setSetting(key: string, value: unknown): void {
+  state.settings.set(key, value);
+}
+
+// answers every message and quick pick, the default dismisses them
+export function answerMessages(handler: MessageHandler): void {
+  state.answer = handler;
+}
+
+// the messages and quick pick titles shown since the last reset
+export function shownMessages(): string[] {
+  return [...state.messages];
+}
+
+export function reset(): void {
+  state.folders = [];
+  state.settings = new Map();
+  state.answer = () => undefined;
+  state.messages = [];
+}
+
+function toItems(args: unknown[]): string[] {
+  return args.filter((arg): arg is string => typeof arg === 'string');
+}
+
+async function showMessage(
+  message: string,
+  ...args: unknown[]
+): Promise<string | undefined> {
+  state.messages.push(message);
+  return state.answer(message, toItems(args));
+}
+
+// ** matches any number of directories, {a,b} either name
+function globToRegExp(glob: string): RegExp {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (glob.startsWith('**/', i)) {
+      source += '(?:.*/)?';
+      i += 2;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      const end = glob.indexOf('}', i);
+      source += `(?:${glob
+        .slice(i + 1, end)
+        .split(',')
+        .map((name) => name.replace(/[.+^$()|[\]\\]/g, '\\$&'))
+        .join('|')})`;
+      i = end;
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+async function walk(dir: string): Promise<string[]> {
+  const paths: string[] = [];
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    const path = nodePath.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      paths.push(...(await walk(path)));
+    } else {
+      paths.push(path);
+    }
+  }
+  return paths;
+}
+
+function folderOf(uri: Uri): WorkspaceFolder | undefined {
+  return state.folders.find(
+    (folder) =>
+      uri.path === folder.uri.path ||
+      uri.path.startsWith(`${folder.uri.path}/`),
+  );
+}
+
+export const workspace = {
+  fs: {
+    async readFile(uri: Uri): Promise<Uint8Array> {
+      return new Uint8Array(await fs.readFile(uri.fsPath));
+    },
+    async writeFile(uri: Uri, content: Uint8Array): Promise<void> {
+      await fs.mkdir(nodePath.dirname(uri.fsPath), { recursive: true });
+      await fs.writeFile(uri.fsPath, content);
+    },
+    async stat(
+      uri: Uri,
+    ): Promise<{ type: FileType; ctime: number; mtime: number; size: number }> {
+      const stat = await fs.stat(uri.fsPath);
+      return {
+        type: stat.isDirectory() ? FileType.Directory : FileType.File,
+        ctime: stat.ctimeMs,
+        mtime: stat.mtimeMs,
+        size: stat.size,
+      };
+    },
+    async readDirectory(uri: Uri): Promise<[string, FileType][]> {
+      const entries = await fs.readdir(uri.fsPath, { withFileTypes: true });
+      return entries.map((entry) => [
+        entry.name,
+        entry.isDirectory() ? FileType.Directory : FileType.File,
+      ]);
+    },
+    async createDirectory(uri: Uri): Promise<void> {
+      await fs.mkdir(uri.fsPath, { recursive: true });
+    },
+    async delete(uri: Uri, options?: { recursive?: boolean }): Promise<void> {
+      await fs.rm(uri.fsPath, { recursive: options?.recursive ?? false });
+    },
+  },
+
+  get workspaceFolders(): WorkspaceFolder[] | undefined {
+    return state.folders.length ? state.folders : undefined;
+  },
+
+  get name(): string | undefined {
+    return state.folders[0]?.name;
+  },
+
+  getWorkspaceFolder: folderOf,
+
+  asRelativePath(
+    pathOrUri: string | Uri,
+    includeWorkspaceFolder = true,
+  ): string {
+    const uri = typeof pathOrUri === 'string' ? Uri.file(pathOrUri) : pathOrUri;
+    const folder = folderOf(uri);
+    if (!folder) {
+      return uri.path;
+    }
+    const relative = uri.path.slice(folder.uri.path.length + 1);
+    return includeWorkspaceFolder && state.folders.length > 1
+      ? `${folder.name}/${relative}`
+      : relative;
+  },
+
+  getConfiguration(section: string) {
+    const key = (name: string) => `${section}.${name}`;
+    return {
+      get<T>(name: string, defaultValue?: T): T | undefined {
+        return (state.settings.get(key(name)) as T | undefined) ?? defaultValue;
+      },
+      inspect<T>(name: string): { globalValue?: T } {
+        return { globalValue: state.settings.get(key(name)) as T | undefined };
+      },
+      async update(name: string, value: unknown): Promise<void> {
+        state.settings.set(key(name), value);
+      },
+    };
+  },
+
+  async findFiles(include: RelativePattern, exclude?: string): Promise<Uri[]> {
+    const root = include.base.fsPath;
+    const included = globToRegExp(include.pattern);
+    const excluded = exclude ? globToRegExp(exclude) : undefined;
+    return (await walk(root))
+      .map((path) =>
+        nodePath.relative(root, path).split(nodePath.sep).join('/'),
+      )
+      .filter((path) => included.test(path) && !excluded?.test(path))
+      .map((path) => Uri.joinPath(include.base, path));
+  },
+
+  createFileSystemWatcher() {
+    const event = () => new Disposable();
+    return {
+      onDidCreate: event,
+      onDidChange: event,
+      onDidDelete: event,
+      dispose() {},
+    };
+  },
+
+  registerTextDocumentContentProvider(): Disposable {
+    return new Disposable();
+  },
+};
+
+export const window = {
+  showInformationMessage: showMessage,
+  showWarningMessage: showMessage,
+  showErrorMessage: showMessage,
+
+  async showQuickPick<T>(
+    items: readonly T[],
+    options?: { title?: string; placeHolder?: string },
+  ): Promise<T | undefined> {
+    const title = options?.title ?? options?.placeHolder ?? '';
+    state.messages.push(title);
+    const labels = items.map((item) =>
+      typeof item === 'string' ? item : (item as { label: string }).label,
+    );
+    const choice = await state.answer(title, labels);
+    return items[labels.indexOf(choice ?? '')];
+  },
+
+  async withProgress<T>(
+    _options: unknown,
+    task: (
+      progress: { report(value: unknown): void },
+      token: { isCancellationRequested: boolean },
+    ) => Promise<T>,
+  ): Promise<T> {
+    return task({ report() {} }, { isCancellationRequested: false });
+  },
+
+  async showTextDocument(): Promise<void> {},
+
+  tabGroups: { all: [] as { tabs: { input: unknown }[] }[] },
+};
+
+export const commands = {
+  async executeCommand(): Promise<void> {},
+};
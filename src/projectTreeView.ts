@@ -0,0 +1,359 @@
+import * as vscode from 'vscode';
+import { describeExclusion } from './exclusionService';
+import type { SyncManager } from './syncManager';
+import type {
+  ExcludedFile,
+  ExclusionReason,
+  FileContent,
+  SyncPlan,
+} from './types';
+
+export type FileSyncStatus =
+  | 'synced'
+  | 'modified'
+  | 'conflict'
+  | 'remote-changed'
+  | 'unresolved'
+  | 'excluded'
+  | 'binary'
+  | 'too-large'
+  | 'secret'
+  | 'remote-only';
+
+const STATUS_LABELS: Record<FileSyncStatus, string> = {
+  synced: 'synced',
+  modified: 'modified',
+  conflict: 'conflict',
+  'remote-changed': 'changed on Claude',
+  unresolved: 'unresolved merge',
+  excluded: 'excluded',
+  binary: 'binary',
+  'too-large': 'too large',
+  secret: 'contains secrets',
+  'remote-only': 'only on Claude',
+};
+
+const STATUS_ICONS: Record<FileSyncStatus, vscode.ThemeIcon> = {
+  synced: new vscode.ThemeIcon(
+    'check',
+    new vscode.ThemeColor('testing.iconPassed'),
+  ),
+  modified: new vscode.ThemeIcon(
+    'circle-filled',
+    new vscode.ThemeColor('gitDecoration.modifiedResourceForeground'),
+  ),
+  conflict: new vscode.ThemeIcon(
+    'git-merge',
+    new vscode.ThemeColor('gitDecoration.conflictingResourceForeground'),
+  ),
+  'remote-changed': new vscode.ThemeIcon('cloud-download'),
+  unresolved: new vscode.ThemeIcon(
+    'warning',
+    new vscode.ThemeColor('gitDecoration.conflictingResourceForeground'),
+  ),
+  excluded: new vscode.ThemeIcon('circle-slash'),
+  binary: new vscode.ThemeIcon('file-binary'),
+  'too-large': new vscode.ThemeIcon('warning'),
+  secret: new vscode.ThemeIcon(
+    'key',
+    new vscode.ThemeColor('problemsWarningIcon.foreground'),
+  ),
+  'remote-only': new vscode.ThemeIcon('cloud'),
+};
+
+const EXCLUSION_STATUSES: Record<ExclusionReason, FileSyncStatus> = {
+  gitignore: 'excluded',
+  claudesyncignore: 'excluded',
+  pattern: 'excluded',
+  size: 'too-large',
+  binary: 'binary',
+  secret: 'secret',
+  budget: 'excluded',
+  internal: 'excluded',
+};
+
+export class ProjectTreeItem extends vscode.TreeItem {
+  public children?: ProjectTreeItem[];
+  public workspaceFolder?: vscode.WorkspaceFolder;
+
+  constructor(
+    public readonly relativePath: string,
+    label: string,
+    public readonly status?: FileSyncStatus,
+    collapsible = vscode.TreeItemCollapsibleState.None,
+  ) {
+    super(label, collapsible);
+  }
+}
+
+/**
+ * Activity bar view listing every workspace file with its sync status, built from a
+ * dry-run sync plan so it matches exactly what a workspace sync would do. The plan
+ * relies on the sync manifest, remote docs are only listed on an explicit refresh or
+ * when the manifest is stale. In a multi-root workspace each initialized folder gets
+ * its own root node.
+ */
+export class ProjectTreeProvider
+  implements vscode.TreeDataProvider<ProjectTreeItem>
+{
+  private readonly changeEmitter = new vscode.EventEmitter<
+    ProjectTreeItem | undefined
+  >();
+  public readonly onDidChangeTreeData = this.changeEmitter.event;
+  private roots?: Promise<ProjectTreeItem[]>;
+  // set by an explicit refresh until the next load lists the remote docs
+  private listRemote = false;
+  private getSyncManagers: () => SyncManager[];
+  private outputChannel: vscode.OutputChannel;
+
+  constructor(
+    getSyncManagers: () => SyncManager[],
+    outputChannel: vscode.OutputChannel,
+  ) {
+    this.getSyncManagers = getSyncManagers;
+    this.outputChannel = outputChannel;
+  }
+
+  // listRemote fetches the project's docs from Claude instead of trusting the manifest
+  public refresh(listRemote = false): void {
+    this.listRemote ||= listRemote;
+    this.roots = undefined;
+    this.changeEmitter.fire(undefined);
+  }
+
+  public getTreeItem(element: ProjectTreeItem): vscode.TreeItem {
+    return element;
+  }
+
+  public async getChildren(
+    element?: ProjectTreeItem,
+  ): Promise<ProjectTreeItem[]> {
+    if (element) {
+      return element.children || [];
+    }
+    if (!this.roots) {
+      this.roots = this.loadRoots();
+    }
+    return this.roots;
+  }
+
+  private async loadRoots(): Promise<ProjectTreeItem[]> {
+    const listRemote = this.listRemote;
+    this.listRemote = false;
+    const initialized: SyncManager[] = [];
+    for (const syncManager of this.getSyncManagers()) {
+      if (
+        syncManager.workspaceFolder &&
+        (await syncManager.isProjectInitialized())
+      ) {
+        initialized.push(syncManager);
+      }
+    }
+
+    const multiRoot = (vscode.workspace.workspaceFolders?.length ?? 0) > 1;
+    const roots: ProjectTreeItem[] = [];
+    for (const syncManager of initialized) {
+      const children = await this.loadFolder(syncManager, listRemote);
+      const workspaceFolder = syncManager.workspaceFolder;
+      if (!multiRoot || !workspaceFolder) {
+        roots.push(...children);
+        continue;
+      }
+      const folderItem = new ProjectTreeItem(
+        '',
+        workspaceFolder.name,
+        undefined,
+        vscode.TreeItemCollapsibleState.Expanded,
+      );
+      folderItem.iconPath = new vscode.ThemeIcon('root-folder');
+      folderItem.workspaceFolder = workspaceFolder;
+      folderItem.children = children;
+      roots.push(folderItem);
+    }
+    return roots;
+  }
+
+  private async loadFolder(
+    syncManager: SyncManager,
+    listRemote: boolean,
+  ): Promise<ProjectTreeItem[]> {
+    const workspaceFolder = syncManager.workspaceFolder;
+    if (!workspaceFolder) {
+      return [];
+    }
+
+    const files = await vscode.workspace.findFiles(
+      new vscode.RelativePattern(workspaceFolder, '**/*'),
+    );
+    const result = await syncManager.planSync(files, {
+      wholeFolder: true,
+      listRemote,
+    });
+    if (!result.success || !result.plan) {
+      this.outputChannel.appendLine(
+        `Failed to load project view for '${workspaceFolder.name}': ${result.error?.message || result.message}`,
+      );
+      const item = new ProjectTreeItem('', 'Failed to load sync status');
+      item.iconPath = new vscode.ThemeIcon('error');
+      item.tooltip = result.error?.message || result.message;
+      return [item];
+    }
+    return this.buildTree(workspaceFolder, result.plan);
+  }
+
+  private buildTree(
+    workspaceFolder: vscode.WorkspaceFolder,
+    plan: SyncPlan,
+  ): ProjectTreeItem[] {
+    const statuses = new Map<string, FileSyncStatus>();
+    // files packed into a bundle share the bundle's status, other generated docs are hidden
+    const setStatus = (file: FileContent, status: FileSyncStatus) => {
+      for (const path of file.members ?? (file.generated ? [] : [file.path])) {
+        statuses.set(path, status);
+      }
+    };
+    for (const file of plan.unchanged) {
+      setStatus(file, 'synced');
+    }
+    for (const file of plan.uploads) {
+      setStatus(file, 'modified');
+    }
+    for (const file of plan.conflicts) {
+      setStatus(file, 'conflict');
+    }
+    for (const file of plan.remoteChanged) {
+      setStatus(file, 'remote-changed');
+    }
+    for (const file of plan.unresolved) {
+      setStatus(file, 'unresolved');
+    }
+    const exclusions = new Map<string, ExcludedFile>();
+    for (const file of plan.excluded) {
+      statuses.set(file.path, EXCLUSION_STATUSES[file.reason]);
+      exclusions.set(file.path, file);
+    }
+    const remotePaths = new Set(plan.remotePaths);
+
+    const root = new ProjectTreeItem('', '');
+    root.children = [];
+    const folders = new Map<string, ProjectTreeItem>([['', root]]);
+    const getFolder = (folderPath: string): ProjectTreeItem => {
+      const existing = folders.get(folderPath);
+      if (existing) {
+        return existing;
+      }
+      const separator = folderPath.lastIndexOf('/');
+      const parent = getFolder(
+        separator === -1 ? '' : folderPath.slice(0, separator),
+      );
+      const folder = new ProjectTreeItem(
+        folderPath,
+        folderPath.slice(separator + 1),
+        undefined,
+        vscode.TreeItemCollapsibleState.Collapsed,
+      );
+      folder.resourceUri = vscode.Uri.joinPath(workspaceFolder.uri, folderPath);
+      folder.workspaceFolder = workspaceFolder;
+      folder.contextValue = 'claudesync.folder';
+      folder.children = [];
+      parent.children?.push(folder);
+      folders.set(folderPath, folder);
+      return folder;
+    };
+
+    for (const [path, status] of statuses) {
+      const separator = path.lastIndexOf('/');
+      const folder = getFolder(
+        separator === -1 ? '' : path.slice(0, separator),
+      );
+      const item = this.createFileItem(
+        path,
+        status,
+        remotePaths.has(path),
+        exclusions.get(path),
+      );
+      item.resourceUri = vscode.Uri.joinPath(workspaceFolder.uri, path);
+      item.workspaceFolder = workspaceFolder;
+      item.command = {
+        command: 'vscode.open',
+        title: 'Open File',
+        arguments: [item.resourceUri],
+      };
+      folder.children?.push(item);
+    }
+
+    const roots = root.children;
+    sortTree(roots);
+    if (plan.remoteOnly.length > 0) {
+      const remoteGroup = new ProjectTreeItem(
+        '',
+        'Only on Claude',
+        undefined,
+        vscode.TreeItemCollapsibleState.Expanded,
+      );
+      remoteGroup.iconPath = new vscode.ThemeIcon('cloud');
+      remoteGroup.description = String(plan.remoteOnly.length);
+      remoteGroup.children = plan.remoteOnly.map((path) => {
+        const item = this.createFileItem(path, 'remote-only', true);
+        item.workspaceFolder = workspaceFolder;
+        item.description = path;
+        item.command = {
+          command: 'claudesync.openRemoteFile',
+          title: 'Open Remote Copy',
+          arguments: [item],
+        };
+        return item;
+      });
+      roots.unshift(remoteGroup);
+    }
+    return roots;
+  }
+
+  private createFileItem(
+    path: string,
+    status: FileSyncStatus,
+    hasRemote: boolean,
+    exclusion?: ExcludedFile,
+  ): ProjectTreeItem {
+    const exclusionReason = exclusion?.reason;
+    const item = new ProjectTreeItem(
+      path,
+      path.slice(path.lastIndexOf('/') + 1),
+      status,
+    );
+    item.description =
+      exclusionReason === 'gitignore' || exclusionReason === 'claudesyncignore'
+        ? `excluded by .${exclusionReason}`
+        : STATUS_LABELS[status];
+    item.iconPath = STATUS_ICONS[status];
+    item.tooltip = exclusion
+      ? `${path} (excluded by ${describeExclusion(exclusion)})`
+      : `${path} (${item.description})`;
+    // e.g. claudesync.file.excluded.pattern or claudesync.file.synced.remote
+    item.contextValue = [
+      'claudesync.file',
+      status,
+      exclusionReason,
+      hasRemote ? 'remote' : undefined,
+    ]
+      .filter(Boolean)
+      .join('.');
+    return item;
+  }
+}
+
+function sortTree(items: ProjectTreeItem[]): void {
+  items.sort((a, b) => {
+    const aFolder = a.children !== undefined;
+    const bFolder = b.children !== undefined;
+    if (aFolder !== bFolder) {
+      return aFolder ? -1 : 1;
+    }
+    return String(a.label).localeCompare(String(b.label));
+  });
+  for (const item of items) {
+    if (item.children && item.contextValue === 'claudesync.folder') {
+      sortTree(item.children);
+    }
+  }
+}
@@ -0,0 +1,96 @@
+import { describeExclusion } from './exclusionService';
+import type { ExcludedFile, FileContent } from './types';
+import { formatSize } from './utils';
+
+export const REPO_MAP_FILE = '.claudesync-repo-map.md';
+
+interface MapNode {
+  children: Map<string, MapNode>;
+  file?: { size?: number; excluded?: ExcludedFile };
+}
+
+/**
+ * Renders the directory tree of a workspace folder with the size of every synced file
+ * and the reason every other file is left out. Directories with nothing synced in them
+ * collapse into a single line, so e.g. node_modules doesn't flood the map.
+ */
+export function buildRepoMap(
+  folderName: string,
+  paths: string[],
+  synced: FileContent[],
+  excluded: ExcludedFile[],
+): FileContent {
+  const sizes = new Map(synced.map((f) => [f.path, f.size]));
+  const exclusions = new Map(excluded.map((f) => [f.path, f]));
+
+  const root: MapNode = { children: new Map() };
+  for (const path of [...paths].sort()) {
+    if (!sizes.has(path) && !exclusions.has(path)) {
+      continue;
+    }
+    let node = root;
+    for (const part of path.split('/')) {
+      let child = node.children.get(part);
+      if (!child) {
+        child = { children: new Map() };
+        node.children.set(part, child);
+      }
+      node = child;
+    }
+    node.file = { size: sizes.get(path), excluded: exclusions.get(path) };
+  }
+
+  const lines: string[] = [];
+  renderNode(root, '', lines);
+  const content = [
+    `# Repository map of ${folderName}`,
+    '',
+    `Generated by ClaudeSync on each workspace sync. ${sizes.size} file(s) are synced to this project and ${exclusions.size} are left out, marked as excluded below.`,
+    '',
+    '```text',
+    ...lines,
+    '```',
+    '',
+  ].join('\n');
+  return {
+    path: REPO_MAP_FILE,
+    content,
+    size: Buffer.byteLength(content),
+    generated: true,
+  };
+}
+
+function renderNode(node: MapNode, indent: string, lines: string[]): void {
+  // directories first, like most file explorers
+  const entries = [...node.children].sort(
+    ([a, x], [b, y]) =>
+      Number(!!x.file) - Number(!!y.file) || a.localeCompare(b),
+  );
+  for (const [name, child] of entries) {
+    if (child.file) {
+      const { size, excluded } = child.file;
+      lines.push(
+        `${indent}${name} (${excluded ? `excluded: ${describeExclusion(excluded)}` : formatSize(size ?? 0)})`,
+      );
+      continue;
+    }
+    const stats = countFiles(child);
+    if (stats.synced === 0) {
+      lines.push(`${indent}${name}/ (${stats.total} file(s), all excluded)`);
+      continue;
+    }
+    lines.push(`${indent}${name}/`);
+    renderNode(child, `${indent}  `, lines);
+  }
+}
+
+function countFiles(node: MapNode): { total: number; synced: number } {
+  let total = node.file ? 1 : 0;
+  let synced = node.file && !node.file.excluded ? 1 : 0;
+  for (const child of node.children.values()) {
+    const stats = countFiles(child);
+    total += stats.total;
+    synced += stats.synced;
+  }
+  return { total, synced };
+}
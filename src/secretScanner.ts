@@ -0,0 +1,172 @@
+export interface SecretFinding {
+  rule: string;
+  description: string;
+  line: number;
+  // offsets of the secret value in the scanned text
+  start: number;
+  end: number;
+}
+
+interface SecretRule {
+  id: string;
+  description: string;
+  // the first capture group, if any, is the secret value within the match
+  pattern: RegExp;
+  // minimum Shannon entropy in bits per character, to skip placeholders
+  minEntropy?: number;
+  // values that are random by design, such as sha512- integrity hashes
+  ignore?: RegExp;
+  // lockfiles are full of checksums, only rules for known formats apply there
+  skipLockfiles?: boolean;
+}
+
+const LOCKFILE =
+  /(?:^|\/)(?:package-lock\.json|npm-shrinkwrap\.json|yarn\.lock|pnpm-lock\.yaml|bun\.lock|composer\.lock|Gemfile\.lock|Cargo\.lock|poetry\.lock|Pipfile\.lock|go\.sum|flake\.lock|packages\.lock\.json)$/;
+
+const SECRET_RULES: SecretRule[] = [
+  {
+    id: 'private-key',
+    description: 'private key',
+    pattern:
+      /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/g,
+  },
+  {
+    id: 'aws-access-key',
+    description: 'AWS access key ID',
+    pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/g,
+  },
+  {
+    id: 'github-token',
+    description: 'GitHub token',
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_\w{82})\b/g,
+  },
+  {
+    id: 'anthropic-key',
+    description: 'Anthropic API key',
+    pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/g,
+  },
+  {
+    id: 'openai-key',
+    description: 'OpenAI API key',
+    pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{32,}/g,
+  },
+  {
+    id: 'slack-token',
+    description: 'Slack token',
+    pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g,
+  },
+  {
+    id: 'stripe-key',
+    description: 'Stripe live key',
+    pattern: /\b[rs]k_live_[A-Za-z0-9]{16,}/g,
+  },
+  {
+    id: 'google-api-key',
+    description: 'Google API key',
+    pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g,
+  },
+  {
+    id: 'jwt',
+    description: 'JSON web token',
+    pattern:
+      /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}/g,
+  },
+  {
+    id: 'credential-assignment',
+    description: 'hard-coded credential',
+    pattern:
+      /(?:api[_-]?key|secret|token|passw(?:or)?d|access[_-]?key|client[_-]?secret)[\w-]*["']?\s*[:=]\s*["']([^"'\s]{12,})["']/gi,
+    minEntropy: 3.5,
+  },
+  {
+    id: 'high-entropy-string',
+    description: 'high-entropy string',
+    pattern: /["'`]([A-Za-z0-9+/_-]{32,}={0,2})["'`]/g,
+    minEntropy: 4.5,
+    ignore: /^sha\d+-/,
+    skipLockfiles: true,
+  },
+];
+
+/**
+ * Finds values that look like credentials. Rules are listed from most to least
+ * specific, and a match overlapping an earlier one is dropped, so a GitHub token in a
+ * quoted string is reported once as a GitHub token. The path of the scanned file, if
+ * given, keeps the high-entropy rule out of lockfiles.
+ */
+export function scanSecrets(text: string, path?: string): SecretFinding[] {
+  const lockfile = path !== undefined && LOCKFILE.test(path);
+  const findings: SecretFinding[] = [];
+  for (const rule of SECRET_RULES) {
+    if (lockfile && rule.skipLockfiles) {
+      continue;
+    }
+    for (const match of text.matchAll(rule.pattern)) {
+      const value = match[1] ?? match[0];
+      const start = (match.index ?? 0) + match[0].indexOf(value);
+      const end = start + value.length;
+      if (
+        (rule.minEntropy && shannonEntropy(value) < rule.minEntropy) ||
+        rule.ignore?.test(value)
+      ) {
+        continue;
+      }
+      if (findings.some((f) => start < f.end && f.start < end)) {
+        continue;
+      }
+      findings.push({
+        rule: rule.id,
+        description: rule.description,
+        line: lineAt(text, start),
+        start,
+        end,
+      });
+    }
+  }
+  return findings.sort((a, b) => a.start - b.start);
+}
+
+// replaces every finding with a marker naming the rule that matched
+export function redactSecrets(text: string, findings: SecretFinding[]): string {
+  let result = '';
+  let position = 0;
+  for (const finding of [...findings].sort((a, b) => a.start - b.start)) {
+    result += `${text.slice(position, finding.start)}[REDACTED ${finding.rule}]`;
+    position = finding.end;
+  }
+  return result + text.slice(position);
+}
+
+// true if the text holds a marker left by redactSecrets
+export function containsRedactions(text: string): boolean {
+  return /\[REDACTED [\w-]+\]/.test(text);
+}
+
+// e.g. "line 12: AWS access key ID (AKIA…)", without revealing the secret
+export function describeFinding(text: string, finding: SecretFinding): string {
+  const prefix = text.slice(finding.start, finding.start + 4);
+  return `line ${finding.line}: ${finding.description} (${prefix}…)`;
+}
+
+function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) ?? 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+function lineAt(text: string, offset: number): number {
+  let line = 1;
+  let newline = text.indexOf('\n');
+  while (newline !== -1 && newline < offset) {
+    line++;
+    newline = text.indexOf('\n', newline + 1);
+  }
+  return line;
+}
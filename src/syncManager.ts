@@ -1,11 +1,94 @@
-import ignore from 'ignore';
 import * as vscode from 'vscode';
-import { ClaudeClient, type Organization, type Project } from './claude/client';
+import {
+  ClaudeClient,
+  type FileDoc,
+  type Organization,
+  type Project,
+} from './claude/client';
+import { branchProjectName } from './branchProjects';
+import { Bundler, isBundlePath } from './bundler';
+import { CHANGE_CONTEXT_FILE, buildChangeContext } from './changeContext';
+import { NotFoundError } from './claude/errors';
 import type { ConfigManager } from './config';
+import { ContentTransformer } from './contentTransforms';
+import { type DecodedText, decodeText, normalizeLineEndings } from './encoding';
+import {
+  ExclusionService,
+  describeExclusion,
+  isBinaryContent,
+} from './exclusionService';
+import { FilePrioritizer, selectWithinBudget } from './filePriority';
+import { type GitRef, GitManager } from './gitManager';
 import { GitignoreManager } from './gitignoreManager';
-import type { ClaudeSyncConfig, FileContent, SyncResult } from './types';
+import { type RenderedTemplate, renderTemplate } from './instructionsTemplate';
+import { REPO_MAP_FILE, buildRepoMap } from './repoMap';
+import {
+  estimateKnowledge,
+  estimateTokens,
+  formatKnowledgeReport,
+  formatKnowledgeUsage,
+  formatTokens,
+  isOverBudget,
+} from './knowledgeBudget';
+import {
+  type SecretFinding,
+  containsRedactions,
+  describeFinding,
+  redactSecrets,
+  scanSecrets,
+} from './secretScanner';
+import {
+  type ConflictResolution,
+  ConflictResolver,
+  hasConflictMarkers,
+  mergeThreeWay,
+} from './conflictResolver';
+import { SyncManifest } from './syncManifest';
+import type {
+  ClaudeSyncConfig,
+  ExcludedFile,
+  FileContent,
+  SyncOptions,
+  SyncPlan,
+  SyncResult,
+} from './types';
 import { computeSHA256Hash } from './utils';
 
+interface RemoteFile extends FileDoc {
+  hash: string;
+  // file_name relative to this workspace folder, without the folder prefix
+  path: string;
+}
+
+type FileSyncState = 'unchanged' | 'upload' | 'remote-changed' | 'conflict';
+
+// a local file decoded as it is on disk, before it is converted for upload
+interface LocalFile extends DecodedText {
+  bom: boolean;
+}
+
+// git and editor state a pull must never write, whatever a doc is named
+const PROTECTED_DIRS = ['.git', '.vscode'];
+
+function isProtectedPath(path: string): boolean {
+  return path
+    .split(/[\\/]/)
+    .some((segment) => PROTECTED_DIRS.includes(segment.toLowerCase()));
+}
+
+type PlanOptions = Pick<SyncOptions, 'wholeFolder' | 'revision'> & {
+  // list remote docs for a dry run even if the manifest is fresh
+  listRemote?: boolean;
+};
+
+interface PullCandidate {
+  remote: RemoteFile;
+  target: vscode.Uri;
+  local?: LocalFile;
+  action: 'create' | 'overwrite';
+  localChanged?: boolean;
+}
+
 export class SyncManager {
   private config: ClaudeSyncConfig;
   private claudeClient: ClaudeClient;
@@ -13,25 +96,42 @@ export class SyncManager {
   private currentProject?: Project;
   private outputChannel: vscode.OutputChannel;
   private configManager: ConfigManager;
-  private gitignoreManager: GitignoreManager;
-
-  private readonly MAX_RETRIES = 10;
-  private readonly RETRY_DELAY = 1000; // 1s
+  private exclusions: ExclusionService;
+  private manifest: SyncManifest;
+  private conflictResolver: ConflictResolver;
+  private gitManager: GitManager;
+  // checked out branch, read when branchProjects is set
+  private branch?: string;
+  private binaryExcludesMigrated = false;
+  // the over-budget warning is shown once until the project fits again
+  private budgetWarned = false;
+  // branch projects the user chose not to create this session
+  private declinedProjects = new Set<string>();
 
   constructor(
     config: ClaudeSyncConfig,
     outputChannel: vscode.OutputChannel,
     configManager: ConfigManager,
+    claudeClient: ClaudeClient = new ClaudeClient(config, {
+      log: (message) => outputChannel.appendLine(message),
+    }),
   ) {
     this.config = config;
     this.outputChannel = outputChannel;
-    this.claudeClient = new ClaudeClient(config);
+    this.claudeClient = claudeClient;
     this.configManager = configManager;
-    this.gitignoreManager = new GitignoreManager(outputChannel);
+    this.exclusions = new ExclusionService(outputChannel);
+    this.manifest = new SyncManifest(outputChannel);
+    this.gitManager = new GitManager(outputChannel);
+    this.conflictResolver = new ConflictResolver();
+  }
+
+  public get workspaceFolder(): vscode.WorkspaceFolder | undefined {
+    return this.configManager.workspaceFolder;
   }
 
   public async isProjectInitialized(): Promise<boolean> {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    const workspaceFolder = this.workspaceFolder;
     if (!workspaceFolder) {
       return false;
     }
@@ -75,8 +175,15 @@ export class SyncManager {
     }
   }
 
-  private async ensureProjectAndOrg(): Promise<SyncResult> {
-    if (this.currentOrg && this.currentProject) {
+  /**
+   * Loads the organization and the project to sync to. A branch project that doesn't
+   * exist yet is only created when create is set, for syncs, and the user agrees.
+   */
+  private async ensureProjectAndOrg(
+    reload = false,
+    create = false,
+  ): Promise<SyncResult> {
+    if (!reload && this.currentOrg && this.currentProject) {
       return {
         success: true,
         message: 'Organization and project already loaded',
@@ -86,6 +193,8 @@ export class SyncManager {
     this.outputChannel.appendLine(
       'Loading organization and project from config...',
     );
+    // a failed reload must not leave the previous project loaded
+    this.currentProject = undefined;
     const config = await this.configManager.getConfig();
     const orgId = config.organizationId;
     const projectId = config.projectId;
@@ -109,7 +218,24 @@ export class SyncManager {
     }
 
     const projects = await this.claudeClient.getProjects(this.currentOrg.id);
-    this.currentProject = projects.find((p) => p.id === projectId);
+    const branchProject = await this.getBranchProjectName();
+    if (branchProject) {
+      this.currentProject = projects.find((p) => p.name === branchProject);
+      if (!this.currentProject) {
+        if (!create || !(await this.confirmBranchProject(branchProject))) {
+          return {
+            success: false,
+            message: `Project '${branchProject}' for branch '${this.branch}' doesn't exist yet, sync the folder to create it`,
+          };
+        }
+        this.currentProject = await this.createBranchProject(
+          this.currentOrg,
+          branchProject,
+        );
+      }
+    } else {
+      this.currentProject = projects.find((p) => p.id === projectId);
+    }
 
     if (!this.currentProject) {
       return {
@@ -127,8 +253,188 @@ export class SyncManager {
     };
   }
 
+  // the project synced to, branchProjects can point it elsewhere than projectId
+  public async getCurrentProjectId(): Promise<string | undefined> {
+    const result = await this.handleError('load project', () =>
+      this.ensureProjectAndOrg(),
+    );
+    return result.success ? this.currentProject?.id : undefined;
+  }
+
+  // the project the checked out branch is mapped to by branchProjects, if any
+  private async getBranchProjectName(): Promise<string | undefined> {
+    const workspaceFolder = this.workspaceFolder;
+    if (!workspaceFolder || !this.config.branchProjects.length) {
+      return undefined;
+    }
+    this.branch = await this.gitManager.getCurrentBranch(workspaceFolder.uri);
+    return branchProjectName(this.config.branchProjects, this.branch);
+  }
+
+  // asks once per session, so auto-syncs don't ask again after a refusal
+  private async confirmBranchProject(name: string): Promise<boolean> {
+    if (this.declinedProjects.has(name)) {
+      return false;
+    }
+    const choice = await vscode.window.showInformationMessage(
+      `Branch '${this.branch}' syncs to project '${name}', which doesn't exist yet. Create it?`,
+      { modal: true },
+      'Create Project',
+    );
+    if (!choice) {
+      this.declinedProjects.add(name);
+    }
+    return !!choice;
+  }
+
+  private async createBranchProject(
+    org: Organization,
+    name: string,
+  ): Promise<Project> {
+    this.outputChannel.appendLine(
+      `Creating project '${name}' for branch '${this.branch}'`,
+    );
+    const project = await this.claudeClient.createProject(
+      org.id,
+      name,
+      'Created by ClaudeSync from VSCode',
+    );
+    this.currentProject = project;
+    await this.updateProjectInstructions();
+    return project;
+  }
+
+  /**
+   * Watches for checkouts when branchProjects is set. When the new branch maps to another
+   * project, that project is loaded and onSwitch receives the outcome. Missing projects
+   * are left for the next sync to create.
+   */
+  public async watchBranch(
+    onSwitch: (result: SyncResult) => void,
+  ): Promise<vscode.Disposable | undefined> {
+    const workspaceFolder = this.workspaceFolder;
+    if (!workspaceFolder || !this.config.branchProjects.length) {
+      return undefined;
+    }
+    this.branch = await this.gitManager.getCurrentBranch(workspaceFolder.uri);
+    let pending = Promise.resolve();
+    return this.gitManager.watchHead(workspaceFolder.uri, () => {
+      // a checkout can write HEAD more than once, handle one change at a time
+      pending = pending.then(() =>
+        this.switchBranch(workspaceFolder, onSwitch),
+      );
+    });
+  }
+
+  private async switchBranch(
+    workspaceFolder: vscode.WorkspaceFolder,
+    onSwitch: (result: SyncResult) => void,
+  ): Promise<void> {
+    const previous = this.branch;
+    const branch = await this.gitManager.getCurrentBranch(workspaceFolder.uri);
+    const rules = this.config.branchProjects;
+    this.branch = branch;
+    if (
+      branchProjectName(rules, branch) === branchProjectName(rules, previous)
+    ) {
+      return;
+    }
+
+    this.outputChannel.appendLine(
+      branch
+        ? `Checked out branch '${branch}', switching project`
+        : 'HEAD detached, switching to the folder project',
+    );
+    const result = await this.handleError('switch project', () =>
+      this.ensureProjectAndOrg(true),
+    );
+    onSwitch(
+      result.success && this.currentProject
+        ? {
+            success: true,
+            message: `Now syncing to project '${this.currentProject.name}'`,
+          }
+        : result,
+    );
+  }
+
+  /**
+   * .projectinstructions rendered with the folder's variables, includes and the
+   * sections of the checked out branch, or undefined when the folder has none. Files a
+   * sync would exclude by their path can't be included.
+   */
+  public async renderProjectInstructions(): Promise<
+    RenderedTemplate | undefined
+  > {
+    const workspaceFolder = this.workspaceFolder;
+    if (!workspaceFolder) {
+      return undefined;
+    }
+    await this.exclusions.load(workspaceFolder.uri, this.config);
+    const readText = async (path: string) => {
+      const uri = this.resolveWorkspacePath(workspaceFolder.uri, path);
+      if (!uri) {
+        return undefined;
+      }
+      try {
+        return this.decodeFile(uri, await vscode.workspace.fs.readFile(uri));
+      } catch {
+        return undefined;
+      }
+    };
+    const template = await readText('.projectinstructions');
+    if (template === undefined) {
+      return undefined;
+    }
+
+    const branch = await this.gitManager.getCurrentBranch(workspaceFolder.uri);
+    const fileCount = await this.countSyncedFiles();
+    return renderTemplate(template, {
+      variables: {
+        workspace: workspaceFolder.name,
+        project: this.currentProject?.name ?? '',
+        branch: branch ?? '',
+        date: new Date().toISOString().slice(0, 10),
+        fileCount: String(fileCount),
+      },
+      branch,
+      readFile: async (path) => {
+        // checked as normalized by the URI, ./.env is .env
+        const uri = this.resolveWorkspacePath(workspaceFolder.uri, path);
+        const relativePath = uri && this.getRelativePath(uri);
+        const exclusion =
+          relativePath && this.exclusions.checkPath(relativePath);
+        if (exclusion) {
+          throw new Error(`excluded by ${describeExclusion(exclusion)}`);
+        }
+        return readText(path);
+      },
+    });
+  }
+
+  // files uploaded at the last sync, counting the members of bundles
+  private async countSyncedFiles(): Promise<number> {
+    try {
+      if (!(await this.loadManifest())) {
+        return 0;
+      }
+    } catch {
+      return 0;
+    }
+    let count = 0;
+    for (const path of this.manifest.paths()) {
+      const members = this.manifest.get(path)?.members;
+      if (members) {
+        count += members.length;
+      } else if (path !== REPO_MAP_FILE && path !== CHANGE_CONTEXT_FILE) {
+        count++;
+      }
+    }
+    return count;
+  }
+
   private async updateProjectInstructions(): Promise<SyncResult> {
-    const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+    const workspaceFolder = this.workspaceFolder;
     if (!workspaceFolder) {
       return { success: false, message: 'No workspace folder found' };
     }
@@ -140,19 +446,42 @@ export class SyncManager {
       };
     }
 
-    try {
-      const instructionsUri = vscode.Uri.joinPath(
-        workspaceFolder.uri,
-        '.projectinstructions',
+    const instructions = await this.renderProjectInstructions();
+    if (!instructions) {
+      this.outputChannel.appendLine(
+        'No .projectinstructions file found or failed to read it',
       );
-      const instructionsContent =
-        await vscode.workspace.fs.readFile(instructionsUri);
-      const instructions = new TextDecoder().decode(instructionsContent);
+      return { success: true, message: 'No project instructions to update' };
+    }
+
+    for (const warning of instructions.warnings) {
+      this.outputChannel.appendLine(`.projectinstructions: ${warning}`);
+    }
+    // included files can bring in secrets the template itself doesn't show
+    const [checked] = await this.applySecretPolicy(
+      [
+        {
+          path: '.projectinstructions',
+          content: instructions.text,
+          size: Buffer.byteLength(instructions.text),
+        },
+      ],
+      [],
+      true,
+    );
+    if (!checked) {
+      return {
+        success: false,
+        message:
+          'The project instructions contain secrets and were not uploaded',
+      };
+    }
 
+    try {
       await this.claudeClient.updateProjectPromptTemplate(
         this.currentOrg.id,
         this.currentProject.id,
-        instructions,
+        checked.content,
       );
       this.outputChannel.appendLine(
         'Updated project prompt template from .projectinstructions file',
@@ -163,16 +492,23 @@ export class SyncManager {
       };
     } catch (error) {
       this.outputChannel.appendLine(
-        'No .projectinstructions file found or failed to read it',
+        `Failed to update project instructions: ${error instanceof Error ? error.message : String(error)}`,
       );
-      return { success: true, message: 'No project instructions to update' };
+      return {
+        success: false,
+        message: 'Failed to update project instructions',
+      };
     }
   }
 
   public async initializeProject(): Promise<SyncResult> {
     return this.handleError('initialize project', async () => {
-      let retryCount = 0;
+      const layout = await this.selectProjectLayout();
+      if (!layout) {
+        return { success: false, message: 'No project layout selected' };
+      }
 
+      // transient failures are retried by ClaudeClient, anything else is reported as is
       return vscode.window.withProgress(
         {
           location: vscode.ProgressLocation.Notification,
@@ -180,100 +516,344 @@ export class SyncManager {
           cancellable: false,
         },
         async (progress) => {
-          while (retryCount < this.MAX_RETRIES) {
-            try {
-              progress.report({ message: 'Processing...' });
-              const orgs = await this.claudeClient.getOrganizations();
-              if (!orgs.length) {
-                return {
-                  success: false,
-                  message:
-                    'No organizations found. Please make sure you have access to Claude',
-                };
-              }
-
-              progress.report({ message: 'Selecting organization...' });
-              this.currentOrg =
-                orgs.length === 1
-                  ? orgs[0]
-                  : await this.selectOrganization(orgs);
-              if (!this.currentOrg) {
-                return { success: false, message: 'No organization selected' };
-              }
-
-              const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-              if (!workspaceFolder) {
-                return { success: false, message: 'No workspace folder found' };
-              }
-
-              const projectName = workspaceFolder.name;
-              progress.report({ message: 'Getting projects...' });
-              const projects = await this.claudeClient.getProjects(
-                this.currentOrg.id,
-              );
-              this.currentProject = projects.find(
-                (p) => p.name === projectName,
-              );
+          progress.report({ message: 'Processing...' });
+          const orgs = await this.claudeClient.getOrganizations();
+          if (!orgs.length) {
+            return {
+              success: false,
+              message:
+                'No organizations found. Please make sure you have access to Claude',
+            };
+          }
 
-              let successMessage: string;
-              if (!this.currentProject) {
-                progress.report({ message: 'Creating new project...' });
-                this.currentProject = await this.claudeClient.createProject(
-                  this.currentOrg.id,
-                  projectName,
-                  'Created by ClaudeSync from VSCode',
-                );
-                successMessage = `Project '${projectName}' has been successfully created with Claude!`;
-              } else {
-                successMessage = `Project '${projectName}' already exists.`;
-              }
+          progress.report({ message: 'Selecting organization...' });
+          this.currentOrg =
+            orgs.length === 1 ? orgs[0] : await this.selectOrganization(orgs);
+          if (!this.currentOrg) {
+            return { success: false, message: 'No organization selected' };
+          }
 
-              progress.report({ message: 'Updating project instructions...' });
-              await this.updateProjectInstructions();
-
-              progress.report({ message: 'Saving configuration...' });
-              await this.configManager.saveWorkspaceConfig({
-                organizationId: this.currentOrg.id,
-                projectId: this.currentProject.id,
-              });
-
-              return {
-                success: true,
-                message: successMessage,
-              };
-            } catch (error) {
-              retryCount++;
-              if (retryCount === this.MAX_RETRIES) {
-                throw error;
-              }
+          const { projectName, prefixWithFolderName } = layout;
+          progress.report({ message: 'Getting projects...' });
+          const projects = await this.claudeClient.getProjects(
+            this.currentOrg.id,
+          );
+          this.currentProject = projects.find((p) => p.name === projectName);
+
+          let successMessage: string;
+          if (!this.currentProject) {
+            progress.report({ message: 'Creating new project...' });
+            this.currentProject = await this.claudeClient.createProject(
+              this.currentOrg.id,
+              projectName,
+              'Created by ClaudeSync from VSCode',
+            );
+            successMessage = `Project '${projectName}' has been successfully created with Claude!`;
+          } else {
+            successMessage = `Project '${projectName}' already exists.`;
+          }
 
-              progress.report({
-                message: `Attempt ${retryCount} failed. Retrying in ${this.RETRY_DELAY / 1000}s...`,
-              });
+          progress.report({ message: 'Updating project instructions...' });
+          await this.updateProjectInstructions();
 
-              await new Promise((resolve) =>
-                setTimeout(resolve, this.RETRY_DELAY),
-              );
-              progress.report({ message: 'Initializing...' });
-            }
-          }
+          progress.report({ message: 'Saving configuration...' });
+          await this.configManager.saveWorkspaceConfig({
+            organizationId: this.currentOrg.id,
+            projectId: this.currentProject.id,
+            prefixWithFolderName,
+          });
+          this.config = await this.configManager.getConfig();
 
           return {
-            success: false,
-            message: 'Failed to initialize project after maximum retries',
+            success: true,
+            message: successMessage,
           };
         },
       );
     });
   }
 
-  public async syncFiles(files: vscode.Uri[]): Promise<SyncResult> {
-    return this.handleError('sync files', async () => {
+  /**
+   * Why a file would be left out of a sync, checking its path and, for readable files,
+   * its content. Ignore files are cached until invalidateExclusions() or the next sync.
+   */
+  public async getExclusion(
+    uri: vscode.Uri,
+  ): Promise<ExcludedFile | undefined> {
+    const workspaceFolder = this.workspaceFolder;
+    const relativePath = this.getRelativePath(uri);
+    if (!workspaceFolder || relativePath === undefined) {
+      return undefined;
+    }
+
+    await this.exclusions.load(workspaceFolder.uri, this.config);
+    let content: Uint8Array;
+    try {
+      const stat = await vscode.workspace.fs.stat(uri);
+      if (stat.type & vscode.FileType.Directory) {
+        // a trailing slash lets directory-only rules like `dist/` match
+        return this.exclusions.checkPath(`${relativePath}/`);
+      }
+      const pathExclusion = this.exclusions.checkPath(relativePath);
+      if (pathExclusion) {
+        return pathExclusion;
+      }
+      content = await vscode.workspace.fs.readFile(uri);
+    } catch {
+      // deleted files only have path rules
+      return this.exclusions.checkPath(relativePath);
+    }
+    const contentExclusion = await this.exclusions.checkContent(
+      relativePath,
+      content,
+    );
+    if (contentExclusion || this.config.secretScanning !== 'block') {
+      return contentExclusion;
+    }
+    const findings = scanSecrets(this.decodeFile(uri, content), relativePath);
+    return findings.length
+      ? {
+          path: relativePath,
+          reason: 'secret',
+          detail: `${findings.length} finding(s)`,
+        }
+      : undefined;
+  }
+
+  public invalidateExclusions(): void {
+    this.exclusions.invalidate();
+  }
+
+  /**
+   * Adds a negating rule for an excluded path: to .claudesyncignore when an ignore file
+   * excluded it, or to excludePatterns when an exclude pattern did. Files detected as
+   * binary are added to treatAsText instead; size exclusions can't be undone by a rule.
+   */
+  public async addIncludeRule(exclusion: ExcludedFile): Promise<SyncResult> {
+    return this.handleError('add include rule', async () => {
+      const workspaceFolder = this.workspaceFolder;
+      if (!workspaceFolder) {
+        return { success: false, message: 'No workspace folder found' };
+      }
+
+      const rule = `!${exclusion.path}`;
+      if (exclusion.reason === 'pattern') {
+        await this.configManager.saveWorkspaceConfig({
+          excludePatterns: [...this.config.excludePatterns, rule],
+        });
+        this.config = await this.configManager.getConfig();
+        return {
+          success: true,
+          message: `Added '${rule}' to excludePatterns`,
+        };
+      }
+
+      if (exclusion.reason === 'binary') {
+        await this.configManager.saveWorkspaceConfig({
+          treatAsText: [...this.config.treatAsText, exclusion.path],
+        });
+        this.config = await this.configManager.getConfig();
+        return {
+          success: true,
+          message: `Added '${exclusion.path}' to treatAsText`,
+        };
+      }
+
+      if (
+        exclusion.reason === 'gitignore' ||
+        exclusion.reason === 'claudesyncignore'
+      ) {
+        const ignoreFile = vscode.Uri.joinPath(
+          workspaceFolder.uri,
+          GitignoreManager.CLAUDESYNC_IGNORE,
+        );
+        let content = '';
+        try {
+          content = Buffer.from(
+            await vscode.workspace.fs.readFile(ignoreFile),
+          ).toString('utf8');
+        } catch {
+          // created below
+        }
+        const separator = content && !content.endsWith('\n') ? '\n' : '';
+        await vscode.workspace.fs.writeFile(
+          ignoreFile,
+          Buffer.from(`${content}${separator}${rule}\n`, 'utf8'),
+        );
+        this.exclusions.invalidate();
+        return {
+          success: true,
+          message: `Added '${rule}' to ${GitignoreManager.CLAUDESYNC_IGNORE}`,
+        };
+      }
+
+      return {
+        success: false,
+        message: `'${exclusion.path}' is excluded by ${describeExclusion(exclusion)}, which no rule can override`,
+      };
+    });
+  }
+
+  /**
+   * For incrementalSync: the files git reports as changed since the last synced commit
+   * of the project, and the commit to record once they are synced. Undefined when the
+   * folder isn't in a git repository; files is undefined when a full sync is needed
+   * because no commit was recorded yet or git no longer knows it.
+   */
+  public async getGitChanges(): Promise<
+    { commit: string; files?: vscode.Uri[] } | undefined
+  > {
+    const workspaceFolder = this.workspaceFolder;
+    if (!workspaceFolder) {
+      return undefined;
+    }
+    const commit = await this.gitManager.getHeadCommit(workspaceFolder.uri);
+    if (!commit) {
+      return undefined;
+    }
+    const since = (await this.loadManifest())
+      ? this.manifest.lastSyncedCommit
+      : undefined;
+    const changed = since
+      ? await this.gitManager.getChangedFiles(workspaceFolder.uri, since)
+      : undefined;
+    // uncommitted files synced last time may have been reverted or deleted since
+    const paths = changed && [
+      ...new Set([...changed, ...this.manifest.lastSyncedDirty]),
+    ];
+    return {
+      commit,
+      files: paths?.map((path) =>
+        vscode.Uri.joinPath(workspaceFolder.uri, path),
+      ),
+    };
+  }
+
+  public async listGitRefs(): Promise<GitRef[]> {
+    const workspaceFolder = this.workspaceFolder;
+    return workspaceFolder ? this.gitManager.listRefs(workspaceFolder.uri) : [];
+  }
+
+  /**
+   * Resolves a branch, tag or commit and lists the files it contains, to sync that
+   * snapshot instead of the working tree. Undefined if git doesn't know the revision.
+   */
+  public async getRevisionFiles(
+    revision: string,
+  ): Promise<{ commit: string; files: vscode.Uri[] } | undefined> {
+    const workspaceFolder = this.workspaceFolder;
+    if (!workspaceFolder) {
+      return undefined;
+    }
+    const commit = await this.gitManager.resolveCommit(
+      workspaceFolder.uri,
+      revision,
+    );
+    if (!commit) {
+      return undefined;
+    }
+    const paths = await this.gitManager.listFilesAt(
+      workspaceFolder.uri,
+      commit,
+    );
+    return {
+      commit,
+      files: paths.map((path) =>
+        vscode.Uri.joinPath(workspaceFolder.uri, path),
+      ),
+    };
+  }
+
+  /**
+   * Records the commit the project now matches. After a working tree sync the
+   * uncommitted and untracked paths are recorded too, since they differ from it.
+   */
+  public async recordSyncedCommit(
+    commit: string,
+    workingTree = true,
+  ): Promise<void> {
+    const workspaceFolder = this.workspaceFolder;
+    if (!workspaceFolder || !(await this.loadManifest())) {
+      return;
+    }
+    const dirty = workingTree
+      ? await this.gitManager.getChangedFiles(workspaceFolder.uri, commit)
+      : [];
+    if (!dirty) {
+      // without the dirty paths the next sync can't be incremental
+      this.manifest.lastSyncedCommit = undefined;
+      this.manifest.lastSyncedDirty = [];
+      await this.manifest.save();
+      return;
+    }
+    this.manifest.lastSyncedCommit = commit;
+    this.manifest.lastSyncedDirty = dirty;
+    await this.manifest.save();
+    this.outputChannel.appendLine(
+      `Recorded synced commit ${commit}${dirty.length ? ` with ${dirty.length} uncommitted file(s)` : ''}`,
+    );
+  }
+
+  // loads the manifest of the current project, false if there is none
+  private async loadManifest(): Promise<boolean> {
+    const workspaceFolder = this.workspaceFolder;
+    if (
+      !workspaceFolder ||
+      !(await this.ensureProjectAndOrg()).success ||
+      !this.currentProject
+    ) {
+      return false;
+    }
+    await this.manifest.load(
+      workspaceFolder.uri,
+      this.currentProject.id,
+      this.currentProject.id !== this.config.projectId,
+    );
+    return true;
+  }
+
+  /**
+   * wholeFolder tells that files are every file of the workspace folder, as listed by a
+   * workspace sync, so the repository map can be generated from them and every other
+   * remote doc counts as removed locally. Unless listRemote is false the remote docs are
+   * listed again, otherwise only when the manifest is stale.
+   */
+  public async planSync(
+    files: vscode.Uri[],
+    options: PlanOptions = {},
+  ): Promise<SyncResult> {
+    return this.handleError('plan sync', async () => {
       const projectResult = await this.ensureProjectAndOrg();
       if (!projectResult.success) {
         return projectResult;
       }
 
+      // a preview lists remote docs so it reflects what's on Claude right now
+      const { plan } = await this.buildPlan(files, {
+        ...options,
+        listRemote: options.listRemote ?? true,
+        dryRun: true,
+      });
+      await this.manifest.save();
+      return {
+        success: true,
+        message: `${plan.uploads.length} to upload, ${plan.unchanged.length} unchanged, ${plan.excluded.length} excluded, ${plan.remoteDeletes.length} remote to delete`,
+        plan,
+      };
+    });
+  }
+
+  // commit is recorded as lastSyncedCommit once every changed file was uploaded
+  public async syncFiles(
+    files: vscode.Uri[],
+    options: SyncOptions = {},
+  ): Promise<SyncResult> {
+    return this.handleError('sync files', async () => {
+      const projectResult = await this.ensureProjectAndOrg(false, true);
+      if (!projectResult.success) {
+        return projectResult;
+      }
+
       const org = this.currentOrg;
       const proj = this.currentProject;
       if (!org || !proj) {
@@ -282,113 +862,178 @@ export class SyncManager {
       const orgId = org.id;
       const projectId = proj.id;
 
-      // load gitignore patterns if workspace folder exists
-      const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-      if (workspaceFolder) {
-        await this.gitignoreManager.loadGitignore(workspaceFolder.uri);
+      const { plan, remoteFiles } = await this.buildPlan(files, {
+        ...options,
+        dryRun: false,
+      });
+      if (!plan.files.length && !plan.remoteDeletes.length) {
+        if (options.commit) {
+          // only excluded files changed since the last synced commit
+          await this.recordSyncedCommit(options.commit, !options.revision);
+          return {
+            success: true,
+            message: 'No changed files to sync',
+            data: { syncedFiles: 0 },
+          };
+        }
+        return { success: false, message: 'No valid files to sync' };
       }
 
-      this.outputChannel.appendLine('Preparing files for sync...');
-      const fileContents = await this.prepareFiles(files);
-      if (!fileContents.length) {
-        return { success: false, message: 'No valid files to sync' };
+      if (isOverBudget(plan.knowledge)) {
+        this.outputChannel.appendLine(formatKnowledgeReport(plan.knowledge));
+        const usage = formatKnowledgeUsage(plan.knowledge);
+        if (this.config.knowledgeBudgetAction === 'block') {
+          return {
+            success: false,
+            message: `Sync stopped: the project would use ${usage}. Exclude some of the largest files listed in the output, or raise knowledgeBudget`,
+          };
+        }
+        // every sync estimates the whole project, so auto-syncs would warn on each save
+        if (!this.budgetWarned) {
+          this.budgetWarned = true;
+          vscode.window
+            .showWarningMessage(
+              `The Claude project will use ${usage}, over its knowledge budget`,
+              'Show Largest Files',
+            )
+            .then((choice) => {
+              if (choice) {
+                this.outputChannel.show();
+              }
+            });
+        }
+      } else {
+        this.budgetWarned = false;
       }
-      this.outputChannel.appendLine(
-        `Prepared ${fileContents.length} files for sync`,
-      );
 
-      const existingFiles = await this.claudeClient.listFiles(orgId, projectId);
-      let skipped = 0;
+      const changedFiles = [...plan.uploads];
+      const skipped = plan.unchanged.length;
+      const remoteChanged = plan.remoteChanged.length;
+      let conflicted = plan.unresolved.length;
+      for (const file of plan.unchanged) {
+        const entry = this.manifest.get(file.path);
+        if (entry?.remoteHash) {
+          // both sides made the same edit
+          await this.manifest.markSynced(
+            file.path,
+            entry.uuid,
+            entry.remoteHash,
+            file.content,
+            file.members,
+          );
+        }
+      }
+      for (const file of plan.remoteChanged) {
+        this.outputChannel.appendLine(
+          `${file.path} was changed on Claude, run 'Pull from Project' to fetch it`,
+        );
+      }
+      for (const file of plan.unresolved) {
+        this.outputChannel.appendLine(
+          `Skipping ${file.path}: it still contains merge conflict markers`,
+        );
+      }
+      for (const file of plan.conflicts) {
+        if (options.revision) {
+          // resolving writes to the working tree, which isn't what is being synced
+          this.outputChannel.appendLine(
+            `Skipping ${file.path}: it was also changed on Claude, sync the working tree to resolve the conflict`,
+          );
+          conflicted++;
+          continue;
+        }
+        const resolution = await this.resolveConflict(
+          file,
+          remoteFiles?.get(file.path),
+        );
+        if (resolution === 'local') {
+          changedFiles.push(file);
+        } else {
+          conflicted++;
+        }
+      }
       let synced = 0;
       let deleted = 0;
 
-      await vscode.window.withProgress(
-        {
-          location: vscode.ProgressLocation.Notification,
-          title: 'Uploading to Claude',
-          cancellable: true,
-        },
-        async (progress, token) => {
-          const total = fileContents.length;
-          let current = 0;
+      try {
+        await vscode.window.withProgress(
+          {
+            location: vscode.ProgressLocation.Notification,
+            title: 'Uploading to Claude',
+            cancellable: true,
+          },
+          async (progress, token) => {
+            const total = changedFiles.length;
+            const concurrency = this.config.uploadConcurrency;
+            let current = 0;
+
+            // First, upload local files that differ from the last synced version
+            await runPool(
+              changedFiles,
+              concurrency,
+              async (file) => {
+                progress.report({
+                  message: `${++current}/${total}: ${file.path}`,
+                  increment: (1 / total) * 100,
+                });
+
+                this.outputChannel.appendLine(`Processing file: ${file.path}`);
+                const existingFile = this.manifest.get(file.path);
+                if (existingFile) {
+                  await this.deleteDoc(orgId, projectId, existingFile.uuid);
+                  this.manifest.delete(file.path);
+                }
 
-          // First, sync all local files
-          for (const file of fileContents) {
+                const uploaded = await this.claudeClient.uploadFile(
+                  orgId,
+                  projectId,
+                  this.toRemoteName(file.path),
+                  file.content,
+                );
+                await this.manifest.markSynced(
+                  file.path,
+                  uploaded.uuid,
+                  file.hash || '',
+                  file.content,
+                  file.members,
+                );
+                synced++;
+              },
+              () => token.isCancellationRequested,
+            );
             if (token.isCancellationRequested) {
               this.outputChannel.appendLine('Upload cancelled by user');
               return;
             }
 
-            progress.report({
-              message: `${++current}/${total}: ${file.path}`,
-              increment: (1 / total) * 100,
-            });
-
-            this.outputChannel.appendLine(`Processing file: ${file.path}`);
-            const existingFile = existingFiles.find(
-              (f) => f.file_name === file.path,
-            );
-
-            if (existingFile) {
-              const [remoteHash, localHash] = await Promise.all([
-                computeSHA256Hash(existingFile.content),
-                computeSHA256Hash(file.content),
-              ]);
-
-              if (remoteHash === localHash) {
-                skipped++;
-                continue;
-              }
-
-              await this.claudeClient.deleteFile(
-                orgId,
-                projectId,
-                existingFile.uuid,
-              );
-            }
-
-            await this.claudeClient.uploadFile(
-              orgId,
-              projectId,
-              file.path,
-              file.content,
-            );
-            synced++;
-          }
-
-          // Then, if cleanupRemoteFiles is enabled, remove any remote files that don't exist locally
-          if (
-            this.config.cleanupRemoteFiles &&
-            !token.isCancellationRequested
-          ) {
-            progress.report({ message: 'Cleaning up remote files...' });
-
-            const localFilePaths = new Set(fileContents.map((f) => f.path));
-            const filesToDelete = existingFiles.filter(
-              (f) => !localFilePaths.has(f.file_name),
-            );
-
-            if (filesToDelete.length > 0) {
+            // Then remove remote files that don't exist locally, if cleanupRemoteFiles is enabled
+            if (plan.remoteDeletes.length > 0) {
+              progress.report({ message: 'Cleaning up remote files...' });
               this.outputChannel.appendLine(
-                `Found ${filesToDelete.length} remote files to delete: ${filesToDelete
-                  .map((f) => f.file_name)
-                  .join(', ')}`,
+                `Found ${plan.remoteDeletes.length} remote files to delete: ${plan.remoteDeletes.join(', ')}`,
               );
 
-              for (const file of filesToDelete) {
-                try {
-                  await this.claudeClient.deleteFile(
-                    orgId,
-                    projectId,
-                    file.uuid,
-                  );
-                  deleted++;
-                } catch (error) {
-                  this.outputChannel.appendLine(
-                    `Failed to delete ${file.file_name}: ${error instanceof Error ? error.message : String(error)}`,
-                  );
-                }
-              }
+              await runPool(
+                plan.remoteDeletes,
+                concurrency,
+                async (path) => {
+                  const entry = this.manifest.get(path);
+                  if (!entry) {
+                    return;
+                  }
+                  try {
+                    await this.deleteDoc(orgId, projectId, entry.uuid);
+                    this.manifest.delete(path);
+                    deleted++;
+                  } catch (error) {
+                    this.manifest.invalidate();
+                    this.outputChannel.appendLine(
+                      `Failed to delete ${path}: ${error instanceof Error ? error.message : String(error)}`,
+                    );
+                  }
+                },
+                () => token.isCancellationRequested,
+              );
 
               if (deleted > 0) {
                 this.outputChannel.appendLine(
@@ -396,34 +1041,746 @@ export class SyncManager {
                 );
               }
             }
-          }
-
-          if (skipped > 0) {
-            this.outputChannel.appendLine(`Skipped ${skipped} unchanged files`);
-          }
-        },
-      );
 
+            if (skipped > 0) {
+              this.outputChannel.appendLine(
+                `Skipped ${skipped} unchanged files`,
+              );
+            }
+            if (remoteChanged + conflicted > 0) {
+              this.outputChannel.appendLine(
+                `Left ${remoteChanged + conflicted} file(s) with remote changes untouched`,
+              );
+            }
+          },
+        );
+      } catch (error) {
+        // the remote state no longer matches what we recorded, so re-list it next time
+        this.manifest.invalidate();
+        throw error;
+      } finally {
+        await this.manifest.save();
+      }
+
+      if (
+        options.commit &&
+        synced === changedFiles.length &&
+        conflicted === 0
+      ) {
+        await this.recordSyncedCommit(options.commit, !options.revision);
+      }
+
+      const total = plan.files.length;
       return {
         success: true,
-        message: `Successfully synced ${fileContents.length} file${fileContents.length === 1 ? '' : 's'} with Claude${
+        message: `Successfully synced ${total} file${total === 1 ? '' : 's'} with Claude${
           skipped > 0
             ? ` (${skipped} unchanged file${skipped === 1 ? '' : 's'} skipped)`
             : ''
-        }${deleted > 0 ? ` and removed ${deleted} remote file${deleted === 1 ? '' : 's'}` : ''}`,
+        }${deleted > 0 ? ` and removed ${deleted} remote file${deleted === 1 ? '' : 's'}` : ''}${
+          remoteChanged + conflicted > 0
+            ? `, ${remoteChanged + conflicted} file${remoteChanged + conflicted === 1 ? '' : 's'} with remote changes not uploaded`
+            : ''
+        }`,
         data: {
           syncedFiles: synced,
           skippedFiles: skipped,
           deletedFiles: deleted,
-          totalFiles: fileContents.length,
+          conflictedFiles: conflicted,
+          remoteChangedFiles: remoteChanged,
+          totalFiles: total,
+        },
+      };
+    });
+  }
+
+  /**
+   * Works out what a sync of these files would do without touching the remote project.
+   * The remote listing is refreshed when the manifest can't be trusted, or on a dry run
+   * when listRemote is set or the manifest is stale.
+   */
+  private async buildPlan(
+    files: vscode.Uri[],
+    options: PlanOptions & Pick<SyncOptions, 'auto'> & { dryRun: boolean },
+  ): Promise<{ plan: SyncPlan; remoteFiles?: Map<string, RemoteFile> }> {
+    const org = this.currentOrg;
+    const proj = this.currentProject;
+    if (!org || !proj) {
+      throw new Error('Project not initialized');
+    }
+
+    // load .gitignore and .claudesyncignore rules if workspace folder exists
+    // auto-syncs run on every save and must not open dialogs
+    const interactive = !options.dryRun && !options.auto;
+    const workspaceFolder = this.workspaceFolder;
+    if (workspaceFolder) {
+      if (interactive) {
+        await this.migrateBinaryExcludes(workspaceFolder.uri);
+      }
+      await this.exclusions.load(workspaceFolder.uri, this.config, true);
+      await this.loadManifest();
+    }
+
+    this.outputChannel.appendLine('Preparing files for sync...');
+    if (options.revision) {
+      this.outputChannel.appendLine(
+        `Reading files at commit ${options.revision}`,
+      );
+    }
+    const prepared = await this.prepareFiles(files, options.revision);
+    const { excluded } = prepared;
+    if (!options.dryRun) {
+      await this.exclusions.save();
+    }
+    let fileContents = await this.applySecretPolicy(
+      prepared.files,
+      excluded,
+      interactive,
+    );
+    // a partial sync only removes docs of the files it was given that are gone or excluded
+    const given = options.wholeFolder
+      ? undefined
+      : new Set(files.map((uri) => this.getRelativePath(uri)));
+    if (this.config.knowledgeBudgetAction === 'prioritize') {
+      fileContents = await this.selectByPriority(fileContents, excluded, given);
+    }
+    const synced = fileContents;
+    if (this.config.bundleMode !== 'off') {
+      fileContents = await this.bundleFiles(
+        fileContents,
+        excluded,
+        interactive,
+        !options.wholeFolder,
+      );
+    }
+    if (workspaceFolder && options.wholeFolder && this.config.repoMap) {
+      const paths = files
+        .map((uri) => this.getRelativePath(uri))
+        .filter((path): path is string => path !== undefined);
+      fileContents = [
+        ...fileContents,
+        buildRepoMap(workspaceFolder.name, paths, synced, excluded),
+      ];
+    }
+    this.outputChannel.appendLine(
+      `Prepared ${fileContents.length} files for sync`,
+    );
+
+    for (const file of fileContents) {
+      file.hash = await computeSHA256Hash(file.content);
+    }
+
+    // only list remote docs when the manifest can't be trusted for these files
+    const unknownFiles = fileContents.filter((f) => !this.manifest.get(f.path));
+    // resolving a conflict the manifest already knows of needs the current remote version
+    const conflicting = fileContents.filter(
+      (f) => this.classifyFile(f) === 'conflict',
+    );
+    const stale = this.manifest.isStale(this.config.manifestMaxAge);
+    let remoteFiles: Map<string, RemoteFile> | undefined;
+    if (
+      options.dryRun
+        ? options.listRemote || stale
+        : stale ||
+          unknownFiles.length > 0 ||
+          (this.config.detectConflicts && conflicting.length > 0)
+    ) {
+      this.outputChannel.appendLine(
+        unknownFiles.length > 0
+          ? `${unknownFiles.length} file(s) missing from sync manifest, refreshing remote listing`
+          : conflicting.length > 0
+            ? 'Fetching remote versions of conflicting files'
+            : 'Refreshing remote listing',
+      );
+      const listing = await this.refreshManifest(org.id, proj.id);
+      remoteFiles = new Map(listing.map((f) => [f.path, f]));
+    }
+
+    const plan: SyncPlan = {
+      files: fileContents,
+      uploads: [],
+      unchanged: [],
+      remoteChanged: [],
+      conflicts: [],
+      unresolved: [],
+      excluded,
+      remoteOnly: [],
+      remoteDeletes: [],
+      remotePaths: this.manifest.paths(),
+      knowledge: estimateKnowledge([], this.config.knowledgeBudget),
+    };
+    for (const file of fileContents) {
+      if (hasConflictMarkers(file.content)) {
+        plan.unresolved.push(file);
+        continue;
+      }
+      const state = this.classifyFile(file);
+      if (state === 'unchanged') {
+        plan.unchanged.push(file);
+      } else if (
+        state === 'upload' ||
+        !this.config.detectConflicts ||
+        // edits made on Claude to docs ClaudeSync generates are overwritten
+        file.generated
+      ) {
+        plan.uploads.push(file);
+      } else if (state === 'remote-changed') {
+        plan.remoteChanged.push(file);
+      } else {
+        plan.conflicts.push(file);
+      }
+    }
+
+    const localFilePaths = new Set(fileContents.map((f) => f.path));
+    plan.remoteOnly = plan.remotePaths.filter(
+      (path) => !localFilePaths.has(path),
+    );
+    plan.remoteDeletes = plan.remoteOnly.filter((path) =>
+      this.removesRemoteDoc(path, given),
+    );
+
+    // local files as they will be uploaded, plus remote docs that are kept; in a shared
+    // project only this folder's docs are counted
+    const remoteDeletes = new Set(plan.remoteDeletes);
+    plan.knowledge = estimateKnowledge(
+      [
+        ...fileContents.map((f) => ({
+          path: f.path,
+          size: f.size,
+          tokens: estimateTokens(f.content.length),
+        })),
+        ...plan.remoteOnly
+          .filter((path) => !remoteDeletes.has(path))
+          .map((path) => {
+            const size = this.manifest.get(path)?.size ?? 0;
+            return { path, size, tokens: estimateTokens(size) };
+          }),
+      ],
+      this.config.knowledgeBudget,
+    );
+
+    return { plan, remoteFiles };
+  }
+
+  /**
+   * Versions before treatAsText added every file detected as binary to excludePatterns,
+   * where the path rule keeps treatAsText from including it. Offers once a session to
+   * drop those entries, binary detection still excludes the files.
+   */
+  private async migrateBinaryExcludes(
+    workspaceFolder: vscode.Uri,
+  ): Promise<void> {
+    if (this.binaryExcludesMigrated) {
+      return;
+    }
+    this.binaryExcludesMigrated = true;
+
+    const appended: string[] = [];
+    for (const pattern of this.config.excludePatterns) {
+      // they were plain relative paths, anything else was written by hand
+      if (/[*?[\]!\\]|^\/|\/$/.test(pattern)) {
+        continue;
+      }
+      const uri = this.resolveWorkspacePath(workspaceFolder, pattern);
+      try {
+        if (uri && isBinaryContent(await vscode.workspace.fs.readFile(uri))) {
+          appended.push(pattern);
+        }
+      } catch {
+        // not a file
+      }
+    }
+    if (!appended.length) {
+      return;
+    }
+
+    const choice = await vscode.window.showInformationMessage(
+      `excludePatterns lists ${appended.length} binary file(s) that an older version of ClaudeSync added: ${appended.join(', ')}. They stay excluded as binary, but treatAsText can only include them once they are removed. Remove them from excludePatterns?`,
+      { modal: true },
+      'Remove',
+    );
+    if (choice !== 'Remove') {
+      this.outputChannel.appendLine(
+        'Kept binary files added by an older version in excludePatterns',
+      );
+      return;
+    }
+    await this.configManager.saveWorkspaceConfig({
+      excludePatterns: this.config.excludePatterns.filter(
+        (pattern) => !appended.includes(pattern),
+      ),
+    });
+    this.config = await this.configManager.getConfig();
+    this.outputChannel.appendLine(
+      `Removed ${appended.length} binary file(s) added by an older version from excludePatterns: ${appended.join(', ')}`,
+    );
+  }
+
+  private async refreshManifest(
+    organizationId: string,
+    projectId: string,
+  ): Promise<RemoteFile[]> {
+    const remoteFiles = await this.claudeClient.listFiles(
+      organizationId,
+      projectId,
+    );
+    const hashedFiles: RemoteFile[] = [];
+    for (const file of remoteFiles) {
+      // skip docs that belong to another folder sharing this project
+      const path = this.toLocalPath(file.file_name);
+      if (path !== undefined) {
+        hashedFiles.push({
+          ...file,
+          path,
+          hash: await computeSHA256Hash(file.content),
+        });
+      }
+    }
+    this.manifest.replaceFromRemote(
+      hashedFiles.map((f) => ({
+        uuid: f.uuid,
+        fileName: f.path,
+        hash: f.hash,
+        size: Buffer.byteLength(f.content, 'utf8'),
+        createdAt: f.created_at,
+      })),
+    );
+    return hashedFiles;
+  }
+
+  /**
+   * Compares a prepared file against the manifest: the entry hash is the last synced
+   * base, and remoteHash is only set when the doc was edited on Claude since then.
+   */
+  private classifyFile(file: FileContent): FileSyncState {
+    const entry = this.manifest.get(file.path);
+    if (!entry) {
+      return 'upload';
+    }
+    if (file.hash === (entry.remoteHash ?? entry.hash)) {
+      return 'unchanged';
+    }
+    if (!entry.remoteHash) {
+      return 'upload';
+    }
+    return file.hash === entry.hash ? 'remote-changed' : 'conflict';
+  }
+
+  private async resolveConflict(
+    file: FileContent,
+    remote: RemoteFile | undefined,
+  ): Promise<ConflictResolution> {
+    const workspaceFolder = this.workspaceFolder;
+    const entry = this.manifest.get(file.path);
+    if (!remote || !entry || !workspaceFolder) {
+      return 'skip';
+    }
+
+    const localUri = vscode.Uri.joinPath(workspaceFolder.uri, file.path);
+    const base = await this.manifest.readBase(entry.hash);
+    const local = await this.readLocalFile(localUri);
+    const resolution = await this.conflictResolver.resolve({
+      path: file.path,
+      localUri,
+      local: file.content,
+      remote: remote.content,
+      base,
+      localOnly: local
+        ? this.writeBackBlocker(file.path, remote.content, local)
+        : 'it can no longer be read',
+    });
+    this.outputChannel.appendLine(
+      `Conflict in ${file.path} resolved with: ${resolution}`,
+    );
+
+    if (resolution === 'remote' && local) {
+      await this.writeLocalFile(localUri, remote.content, local);
+      await this.manifest.markSynced(
+        file.path,
+        remote.uuid,
+        remote.hash,
+        remote.content,
+      );
+    } else if (resolution === 'merge' && local) {
+      // merge into the file as it is on disk, not the text converted for upload
+      const merged = mergeThreeWay(local.text, remote.content, base);
+      await this.writeLocalFile(localUri, merged.content, local);
+      // the remote version becomes the new base so the merged result uploads next sync
+      await this.manifest.markSynced(
+        file.path,
+        remote.uuid,
+        remote.hash,
+        remote.content,
+      );
+      await vscode.window.showTextDocument(localUri);
+      if (merged.conflicts > 0) {
+        vscode.window.showWarningMessage(
+          `${merged.conflicts} conflicting section${merged.conflicts === 1 ? '' : 's'} in '${file.path}' need manual resolution before the next sync`,
+        );
+      }
+    }
+    return resolution;
+  }
+
+  public async getRemoteFileContent(
+    fileName: string,
+  ): Promise<string | undefined> {
+    const projectResult = await this.ensureProjectAndOrg();
+    if (!projectResult.success || !this.currentOrg || !this.currentProject) {
+      throw new Error(projectResult.message || 'Project not initialized');
+    }
+    const remoteFiles = await this.claudeClient.listFiles(
+      this.currentOrg.id,
+      this.currentProject.id,
+    );
+    const remoteName = this.toRemoteName(fileName);
+    return remoteFiles.find((f) => f.file_name === remoteName)?.content;
+  }
+
+  /**
+   * Uploads the diff of the working tree against where HEAD branched off base, with the
+   * commits since and the touched files, replacing the document of an earlier upload.
+   */
+  public async uploadChangeContext(base: string): Promise<SyncResult> {
+    return this.handleError('upload changes', async () => {
+      const projectResult = await this.ensureProjectAndOrg(false, true);
+      if (!projectResult.success) {
+        return projectResult;
+      }
+
+      const org = this.currentOrg;
+      const proj = this.currentProject;
+      const workspaceFolder = this.workspaceFolder;
+      if (!org || !proj || !workspaceFolder) {
+        return projectResult;
+      }
+
+      // files a sync would leave out stay out of the review too
+      await this.exclusions.load(workspaceFolder.uri, this.config);
+      const changes = await this.gitManager.getChanges(
+        workspaceFolder.uri,
+        base,
+        async (path) => {
+          if (this.exclusions.checkPath(path)) {
+            return false;
+          }
+          let content: Uint8Array;
+          try {
+            content = await vscode.workspace.fs.readFile(
+              vscode.Uri.joinPath(workspaceFolder.uri, path),
+            );
+          } catch {
+            // deleted in the working tree
+            return true;
+          }
+          return !(await this.exclusions.checkContent(path, content));
         },
+      );
+      if (!changes) {
+        return {
+          success: false,
+          message: `'${base}' is not a git revision sharing history with HEAD`,
+        };
+      }
+      if (!changes.files.length) {
+        return {
+          success: false,
+          message: changes.excluded
+            ? `Only excluded files changed against '${base}'`
+            : `No changes against '${base}'`,
+        };
+      }
+
+      const [doc] = await this.applySecretPolicy(
+        [buildChangeContext(changes, this.config.maxFileSize)],
+        [],
+        true,
+      );
+      if (!doc) {
+        return {
+          success: false,
+          message: 'The changes contain secrets and were not uploaded',
+        };
+      }
+      const hash = await computeSHA256Hash(doc.content);
+
+      await this.loadManifest();
+      if (!this.manifest.get(doc.path)) {
+        // an earlier upload may be missing from the manifest
+        await this.refreshManifest(org.id, proj.id);
+      }
+      const existing = this.manifest.get(doc.path);
+      try {
+        if (existing) {
+          await this.deleteDoc(org.id, proj.id, existing.uuid);
+          this.manifest.delete(doc.path);
+        }
+        const uploaded = await this.claudeClient.uploadFile(
+          org.id,
+          proj.id,
+          this.toRemoteName(doc.path),
+          doc.content,
+        );
+        await this.manifest.markSynced(
+          doc.path,
+          uploaded.uuid,
+          hash,
+          doc.content,
+        );
+      } catch (error) {
+        this.manifest.invalidate();
+        throw error;
+      } finally {
+        await this.manifest.save();
+      }
+
+      this.outputChannel.appendLine(
+        `Uploaded ${doc.path}: ${changes.commits.length} commit(s) and ${changes.files.length} file(s) changed against ${base}`,
+      );
+      return {
+        success: true,
+        message: `Uploaded changes against '${base}': ${changes.commits.length} commit(s), ${changes.files.length} file(s)`,
       };
     });
   }
 
+  public async deleteRemoteFile(fileName: string): Promise<SyncResult> {
+    return this.handleError('delete remote file', async () => {
+      const projectResult = await this.ensureProjectAndOrg();
+      if (!projectResult.success) {
+        return projectResult;
+      }
+
+      const org = this.currentOrg;
+      const proj = this.currentProject;
+      const workspaceFolder = this.workspaceFolder;
+      if (!org || !proj || !workspaceFolder) {
+        return projectResult;
+      }
+
+      await this.loadManifest();
+      const remoteFiles = await this.refreshManifest(org.id, proj.id);
+      const remote = remoteFiles.find((f) => f.path === fileName);
+      if (!remote) {
+        await this.manifest.save();
+        return {
+          success: false,
+          message: `'${fileName}' does not exist in the Claude project`,
+        };
+      }
+
+      await this.deleteDoc(org.id, proj.id, remote.uuid);
+      this.manifest.delete(fileName);
+      await this.manifest.save();
+      this.outputChannel.appendLine(`Deleted remote file: ${fileName}`);
+      return {
+        success: true,
+        message: `Deleted '${fileName}' from Claude`,
+      };
+    });
+  }
+
+  public async pullFiles(): Promise<SyncResult> {
+    return this.handleError('pull files', async () => {
+      const projectResult = await this.ensureProjectAndOrg();
+      if (!projectResult.success) {
+        return projectResult;
+      }
+
+      const org = this.currentOrg;
+      const proj = this.currentProject;
+      const workspaceFolder = this.workspaceFolder;
+      if (!org || !proj) {
+        return projectResult;
+      }
+      if (!workspaceFolder) {
+        return { success: false, message: 'No workspace folder found' };
+      }
+
+      await this.loadManifest();
+      const previousEntries = new Map(
+        this.manifest.paths().map((path) => [path, this.manifest.get(path)]),
+      );
+
+      await this.exclusions.load(workspaceFolder.uri, this.config);
+      this.outputChannel.appendLine('Fetching remote project files...');
+      const remoteFiles = await this.refreshManifest(org.id, proj.id);
+
+      const transformer = new ContentTransformer(this.config.transforms);
+      const candidates: PullCandidate[] = [];
+      const refused: string[] = [];
+      for (const remote of remoteFiles) {
+        const target = this.resolveWorkspacePath(
+          workspaceFolder.uri,
+          remote.path,
+        );
+        if (!target || isProtectedPath(remote.path)) {
+          this.outputChannel.appendLine(
+            `Skipping remote file with unsafe path: ${remote.path}`,
+          );
+          continue;
+        }
+        // a doc a sync wouldn't upload doesn't belong in the workspace either
+        const exclusion = this.exclusions.checkPath(remote.path);
+        if (exclusion) {
+          this.outputChannel.appendLine(
+            `Skipping excluded remote file ${remote.path}: ${describeExclusion(exclusion)}`,
+          );
+          continue;
+        }
+        if (
+          isBundlePath(remote.path) ||
+          remote.path === REPO_MAP_FILE ||
+          remote.path === CHANGE_CONTEXT_FILE
+        ) {
+          continue;
+        }
+
+        const local = await this.readLocalFile(target);
+        let action: PullCandidate['action'] = 'create';
+        let localHash: string | undefined;
+        if (local) {
+          action = 'overwrite';
+          // compare what a sync would upload, not the raw file
+          let text = transformer.transform(
+            remote.path,
+            normalizeLineEndings(local.text, this.config.lineEndings),
+          ).text;
+          const findings =
+            this.config.secretScanning === 'off'
+              ? []
+              : scanSecrets(text, remote.path);
+          if (findings.length) {
+            text = redactSecrets(text, findings);
+          }
+          localHash = await computeSHA256Hash(text);
+
+          if (localHash === remote.hash) {
+            if (this.manifest.get(remote.path)?.remoteHash) {
+              await this.manifest.markSynced(
+                remote.path,
+                remote.uuid,
+                remote.hash,
+                remote.content,
+              );
+            }
+            continue;
+          }
+        }
+
+        // compare against what we last synced to tell remote edits from local ones
+        const base = previousEntries.get(remote.path);
+        if (local && base && base.hash === remote.hash) {
+          continue;
+        }
+
+        const blocker = this.writeBackBlocker(
+          remote.path,
+          remote.content,
+          local,
+        );
+        if (blocker) {
+          refused.push(remote.path);
+          this.outputChannel.appendLine(
+            `Not pulling ${remote.path} because ${blocker}`,
+          );
+          continue;
+        }
+        candidates.push({
+          remote,
+          target,
+          local,
+          action,
+          localChanged: !!local && (!base || base.hash !== localHash),
+        });
+      }
+      await this.manifest.save();
+
+      const refusedNote = refused.length
+        ? `, ${refused.length} file(s) can't be written back without losing local content, see the ClaudeSync output`
+        : '';
+      if (!candidates.length) {
+        return {
+          success: true,
+          message: `Workspace is already up to date with the Claude project${refusedNote}`,
+          data: { syncedFiles: 0 },
+        };
+      }
+
+      const selected = await vscode.window.showQuickPick(
+        candidates.map((candidate) => ({
+          label: candidate.remote.path,
+          description:
+            candidate.action === 'create'
+              ? 'create'
+              : candidate.localChanged
+                ? 'overwrite (local changes will be lost)'
+                : 'overwrite',
+          // only updates of unchanged files are preselected, new files need a deliberate pick
+          picked: candidate.action === 'overwrite' && !candidate.localChanged,
+          candidate,
+        })),
+        {
+          canPickMany: true,
+          placeHolder: `Select files to pull from '${proj.name}' into the workspace`,
+        },
+      );
+      if (!selected?.length) {
+        return {
+          success: false,
+          message: 'Pull cancelled',
+        };
+      }
+
+      let pulled = 0;
+      for (const { candidate } of selected) {
+        await vscode.workspace.fs.createDirectory(
+          vscode.Uri.joinPath(candidate.target, '..'),
+        );
+        await this.writeLocalFile(
+          candidate.target,
+          candidate.remote.content,
+          candidate.local,
+        );
+        await this.manifest.markSynced(
+          candidate.remote.path,
+          candidate.remote.uuid,
+          candidate.remote.hash,
+          candidate.remote.content,
+        );
+        this.outputChannel.appendLine(
+          `Pulled ${candidate.remote.path} (${candidate.action})`,
+        );
+        pulled++;
+      }
+      await this.manifest.save();
+
+      return {
+        success: true,
+        message: `Pulled ${pulled} file${pulled === 1 ? '' : 's'} from Claude${refusedNote}`,
+        data: { syncedFiles: pulled },
+      };
+    });
+  }
+
+  private resolveWorkspacePath(
+    workspaceFolder: vscode.Uri,
+    fileName: string,
+  ): vscode.Uri | undefined {
+    const segments = fileName.replace(/\\/g, '/').split('/');
+    if (
+      fileName.startsWith('/') ||
+      /^[a-zA-Z]:/.test(fileName) ||
+      segments.some((s) => s === '..' || s === '')
+    ) {
+      return undefined;
+    }
+    return vscode.Uri.joinPath(workspaceFolder, ...segments);
+  }
+
   public async syncProjectInstructions(): Promise<SyncResult> {
     return this.handleError('sync project instructions', async () => {
-      const projectResult = await this.ensureProjectAndOrg();
+      const projectResult = await this.ensureProjectAndOrg(false, true);
       if (!projectResult.success) {
         return projectResult;
       }
@@ -435,13 +1792,68 @@ export class SyncManager {
             message:
               'Project instructions have been successfully updated in Claude',
           }
-        : {
-            success: false,
-            message: 'No .projectinstructions file found or failed to read it',
-          };
+        : result;
     });
   }
 
+  // a doc that's already gone was most likely deleted on claude.ai, nothing left to do
+  private async deleteDoc(
+    orgId: string,
+    projectId: string,
+    uuid: string,
+  ): Promise<void> {
+    try {
+      await this.claudeClient.deleteFile(orgId, projectId, uuid);
+    } catch (error) {
+      if (!(error instanceof NotFoundError)) {
+        throw error;
+      }
+      this.outputChannel.appendLine(`Remote file ${uuid} was already deleted`);
+    }
+  }
+
+  /**
+   * In a multi-root workspace a folder can get its own project or share one named after
+   * the workspace, in which case its files are uploaded under a `<folder>/` prefix.
+   */
+  private async selectProjectLayout(): Promise<
+    { projectName: string; prefixWithFolderName: boolean } | undefined
+  > {
+    const workspaceFolder = this.workspaceFolder;
+    if (!workspaceFolder) {
+      return undefined;
+    }
+
+    const separate = {
+      projectName: workspaceFolder.name,
+      prefixWithFolderName: false,
+    };
+    const folderCount = vscode.workspace.workspaceFolders?.length ?? 0;
+    const workspaceName = vscode.workspace.name;
+    if (folderCount < 2 || !workspaceName) {
+      return separate;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+      [
+        {
+          label: `Separate project '${workspaceFolder.name}'`,
+          description: 'Files are uploaded with their folder-relative paths',
+          layout: separate,
+        },
+        {
+          label: `Shared project '${workspaceName}'`,
+          description: `Files are uploaded as '${workspaceFolder.name}/<path>'`,
+          layout: { projectName: workspaceName, prefixWithFolderName: true },
+        },
+      ],
+      {
+        placeHolder: `Choose a Claude project for folder '${workspaceFolder.name}'`,
+      },
+    );
+    return selected?.layout;
+  }
+
   private async selectOrganization(
     orgs: Organization[],
   ): Promise<Organization | undefined> {
@@ -456,168 +1868,485 @@ export class SyncManager {
     return selected?.org;
   }
 
-  private isBinaryContent(content: Uint8Array): boolean {
-    const signatures = {
-      pdf: [0x25, 0x50, 0x44, 0x46], // %PDF
-      png: [0x89, 0x50, 0x4e, 0x47], // PNG
-      gif: [0x47, 0x49, 0x46, 0x38], // GIF8
-      jpeg: [0xff, 0xd8, 0xff], // JPEG
-      zip: [0x50, 0x4b, 0x03, 0x04], // ZIP
-      gzip: [0x1f, 0x8b, 0x08], // GZIP
-    };
+  // revision reads the files as of that commit instead of from the working tree
+  private async prepareFiles(
+    files: vscode.Uri[],
+    revision?: string,
+  ): Promise<{ files: FileContent[]; excluded: ExcludedFile[] }> {
+    const result: FileContent[] = [];
+    const excluded: ExcludedFile[] = [];
+    const transformer = new ContentTransformer(this.config.transforms);
+    let transformed = 0;
+    let savedBytes = 0;
 
-    // check file signatures
-    for (const [_, sig] of Object.entries(signatures)) {
-      if (
-        content.length >= sig.length &&
-        sig.every((byte, i) => content[i] === byte)
-      ) {
-        return true;
-      }
-    }
+    for (const file of files) {
+      try {
+        const relativePath = this.getRelativePath(file);
+        if (relativePath === undefined) {
+          continue;
+        }
 
-    // take samples from beginning, middle, and end of file
-    const sampleSize = 512; // reduced from 1KB to sample multiple areas
-    const samples: Uint8Array[] = [];
+        // skip excluded files
+        const pathExclusion = this.exclusions.checkPath(relativePath);
+        if (pathExclusion) {
+          excluded.push(pathExclusion);
+          continue;
+        }
 
-    samples.push(content.slice(0, sampleSize));
+        const workspaceFolder = this.workspaceFolder;
+        const content =
+          revision && workspaceFolder
+            ? await this.gitManager.readFileAt(
+                workspaceFolder.uri,
+                revision,
+                relativePath,
+              )
+            : await vscode.workspace.fs.readFile(file);
 
-    // middle sample (if file is large enough)
-    if (content.length > sampleSize * 2) {
-      const midStart =
-        Math.floor(content.length / 2) - Math.floor(sampleSize / 2);
-      samples.push(content.slice(midStart, midStart + sampleSize));
-    }
+        // skip binary or large files
+        const contentExclusion = await this.exclusions.checkContent(
+          relativePath,
+          content,
+        );
+        if (contentExclusion) {
+          excluded.push(contentExclusion);
+          continue;
+        }
 
-    // end sample (if file is large enough)
-    if (content.length > sampleSize) {
-      samples.push(content.slice(-sampleSize));
+        // uploads and hashes use the transformed text, so unchanged files still skip
+        const decoded = this.decodeFile(file, content);
+        const { text, applied } = transformer.transform(relativePath, decoded);
+        // the size of the UTF-8 text uploaded, not of the file on disk
+        const size = Buffer.byteLength(text);
+        if (applied.length) {
+          transformed++;
+          savedBytes += Buffer.byteLength(decoded) - size;
+        }
+        result.push({ path: relativePath, content: text, size });
+      } catch {
+        continue;
+      }
+    }
+    this.exclusions.logSummary(excluded);
+    if (transformed) {
+      this.outputChannel.appendLine(
+        `Transformed ${transformed} file(s), saving ${savedBytes} bytes`,
+      );
     }
 
-    for (const sample of samples) {
-      let nullCount = 0;
-      let nonPrintableCount = 0;
-      let consecutiveNonPrintable = 0;
-      let maxConsecutiveNonPrintable = 0;
+    return { files: result, excluded };
+  }
 
-      for (const byte of sample) {
-        // check for null bytes
-        if (byte === 0) {
-          nullCount++;
-          if (nullCount > 1) {
-            return true;
-          }
-        }
+  /**
+   * Whether a sync removes the doc of a file it doesn't upload: with cleanupRemoteFiles,
+   * every such doc on a whole-folder sync and only those of the given files otherwise.
+   * The change document is only replaced by uploading changes again.
+   */
+  private removesRemoteDoc(
+    path: string,
+    given: Set<string | undefined> | undefined,
+  ): boolean {
+    return (
+      this.config.cleanupRemoteFiles &&
+      path !== CHANGE_CONTEXT_FILE &&
+      (!given || given.has(path))
+    );
+  }
 
-        if ((byte < 32 && ![9, 10, 13].includes(byte)) || byte === 127) {
-          nonPrintableCount++;
-          consecutiveNonPrintable++;
-          maxConsecutiveNonPrintable = Math.max(
-            maxConsecutiveNonPrintable,
-            consecutiveNonPrintable,
-          );
-        } else {
-          consecutiveNonPrintable = 0;
-        }
+  /**
+   * Keeps the highest-priority files that fit in knowledgeBudget and excludes the rest.
+   * Remote docs that stay in the project count against the budget first. Without
+   * cleanupRemoteFiles that includes every file already on Claude, since leaving it out
+   * of the sync wouldn't remove it, so only new files compete for the space left. With
+   * it, a partial sync still keeps the docs of files it wasn't given.
+   */
+  private async selectByPriority(
+    files: FileContent[],
+    excluded: ExcludedFile[],
+    given: Set<string | undefined> | undefined,
+  ): Promise<FileContent[]> {
+    const workspaceFolder = this.workspaceFolder;
+    const budget = this.config.knowledgeBudget;
+    if (!workspaceFolder || !budget) {
+      return files;
+    }
 
-        // UTF-8 continuation byte check (10xxxxxx)
-        if ((byte & 0xc0) === 0x80) {
-          nonPrintableCount--; // Don't count UTF-8 continuation bytes
-        }
+    const cleanup = this.config.cleanupRemoteFiles;
+    const localPaths = new Set(files.map((f) => f.path));
+    let fixed = 0;
+    for (const path of this.manifest.paths()) {
+      if (!localPaths.has(path) && !this.removesRemoteDoc(path, given)) {
+        fixed += estimateTokens(this.manifest.get(path)?.size ?? 0);
       }
+    }
+    const kept = new Set(
+      files.filter((f) => !cleanup && this.manifest.get(f.path)),
+    );
+    const candidates = files.filter((f) => !kept.has(f));
+    for (const file of kept) {
+      fixed += estimateTokens(file.content.length);
+    }
 
-      if (
-        nonPrintableCount / sample.length > 0.08 ||
-        maxConsecutiveNonPrintable > 4 ||
-        (sample.length > 20 && nullCount / sample.length > 0.01)
-      ) {
-        return true;
+    const candidateTokens = candidates.reduce(
+      (sum, f) => sum + estimateTokens(f.content.length),
+      0,
+    );
+    if (fixed + candidateTokens <= budget) {
+      return files;
+    }
+
+    const openFiles = new Set<string>();
+    for (const tab of vscode.window.tabGroups.all.flatMap((g) => g.tabs)) {
+      const path =
+        tab.input instanceof vscode.TabInputText
+          ? this.getRelativePath(tab.input.uri)
+          : undefined;
+      if (path !== undefined) {
+        openFiles.add(path);
       }
     }
+    let instructions: string | undefined;
+    try {
+      const uri = vscode.Uri.joinPath(
+        workspaceFolder.uri,
+        '.projectinstructions',
+      );
+      instructions = this.decodeFile(
+        uri,
+        await vscode.workspace.fs.readFile(uri),
+      );
+    } catch {
+      // no instructions to reference files
+    }
+    const modifiedAt = new Map<string, number>();
+    for (const file of candidates) {
+      try {
+        const stat = await vscode.workspace.fs.stat(
+          vscode.Uri.joinPath(workspaceFolder.uri, file.path),
+        );
+        modifiedAt.set(file.path, stat.mtime);
+      } catch {
+        // scored without the recent edit bonus
+      }
+    }
+
+    const prioritizer = new FilePrioritizer(this.config.priorityRules, {
+      openFiles,
+      instructions,
+      modifiedAt,
+      now: Date.now(),
+    });
+    const { selected, dropped } = selectWithinBudget(
+      candidates.map((f) => ({
+        path: f.path,
+        tokens: estimateTokens(f.content.length),
+        score: prioritizer.score(f.path),
+      })),
+      Math.max(0, budget - fixed),
+    );
 
-    return false;
+    this.outputChannel.appendLine(
+      `Left out ${dropped.length} file(s) to fit the knowledge budget of ~${formatTokens(budget)} tokens:`,
+    );
+    for (const file of dropped) {
+      const detail = `priority ${file.score}, ~${formatTokens(file.tokens)} tokens`;
+      excluded.push({ path: file.path, reason: 'budget', detail });
+      this.outputChannel.appendLine(`  ${file.path} (${detail})`);
+    }
+    const selectedPaths = new Set(selected.map((f) => f.path));
+    return files.filter((f) => kept.has(f) || selectedPaths.has(f.path));
   }
 
-  private async prepareFiles(files: vscode.Uri[]): Promise<FileContent[]> {
-    const result: FileContent[] = [];
-    const binaryFiles = new Set<string>();
+  /**
+   * Packs small files into bundle docs as bundleMode says. A bundle must always hold all
+   * of its files, so with partial set, members recorded at the last sync that aren't
+   * part of this one, e.g. when auto-sync uploads a single file, are read from the
+   * workspace again.
+   */
+  private async bundleFiles(
+    files: FileContent[],
+    excluded: ExcludedFile[],
+    interactive: boolean,
+    partial: boolean,
+  ): Promise<FileContent[]> {
+    const workspaceFolder = this.workspaceFolder;
+    if (!workspaceFolder) {
+      return files;
+    }
 
+    const bundler = new Bundler(this.config);
+    const bundles = new Map<string, FileContent[]>();
+    const result: FileContent[] = [];
+    const addFile = (file: FileContent) => {
+      const bundle = bundler.bundleFor(file);
+      if (!bundle) {
+        result.push(file);
+        return;
+      }
+      const members = bundles.get(bundle) ?? [];
+      members.push(file);
+      bundles.set(bundle, members);
+    };
     for (const file of files) {
-      try {
-        const relativePath = vscode.workspace.asRelativePath(file);
+      addFile(file);
+    }
 
-        // skip excluded files
-        if (this.shouldExclude(relativePath)) {
-          continue;
+    const included = new Set(files.map((f) => f.path));
+    const handled = new Set(excluded.map((f) => f.path));
+    const missing = new Set<string>();
+    for (const bundle of partial ? bundles.keys() : []) {
+      for (const path of this.manifest.get(bundle)?.members ?? []) {
+        if (!included.has(path) && !handled.has(path)) {
+          missing.add(path);
+        }
+      }
+    }
+    if (missing.size) {
+      const prepared = await this.prepareFiles(
+        [...missing].map((path) =>
+          vscode.Uri.joinPath(workspaceFolder.uri, path),
+        ),
+      );
+      excluded.push(...prepared.excluded);
+      const checked = await this.applySecretPolicy(
+        prepared.files,
+        excluded,
+        interactive,
+      );
+      for (const file of checked) {
+        // only complete existing bundles, members that moved are synced with their own
+        const bundle = bundler.bundleFor(file);
+        if (bundle && bundles.has(bundle)) {
+          addFile(file);
         }
+      }
+    }
 
-        const content = await vscode.workspace.fs.readFile(file);
+    let packed = 0;
+    for (const [path, members] of bundles) {
+      result.push(bundler.build(path, members));
+      packed += members.length;
+    }
+    if (bundles.size) {
+      this.outputChannel.appendLine(
+        `Packed ${packed} file(s) into ${bundles.size} bundle(s)`,
+      );
+    }
+    return result;
+  }
 
-        // skip binary or large files
-        if (content.byteLength > this.config.maxFileSize) {
-          continue;
-        }
+  /**
+   * Scans files for credentials and handles them as secretScanning says: block drops the
+   * file, redact replaces each value with a marker, and prompt asks once for every file
+   * found, treating the files as blocked when it can't ask.
+   */
+  private async applySecretPolicy(
+    files: FileContent[],
+    excluded: ExcludedFile[],
+    interactive: boolean,
+  ): Promise<FileContent[]> {
+    const mode = this.config.secretScanning;
+    if (mode === 'off') {
+      return files;
+    }
 
-        if (this.isBinaryContent(content)) {
-          // check if any parent folder is already excluded
-          const pathParts = relativePath.split('/');
-          let isParentExcluded = false;
-          let currentPath = '';
-
-          for (const part of pathParts) {
-            currentPath = currentPath ? `${currentPath}/${part}` : part;
-            if (this.shouldExclude(currentPath)) {
-              isParentExcluded = true;
-              break;
-            }
-          }
+    const flagged = new Map<FileContent, SecretFinding[]>();
+    for (const file of files) {
+      const findings = scanSecrets(file.content, file.path);
+      if (!findings.length) {
+        continue;
+      }
+      flagged.set(file, findings);
+      this.outputChannel.appendLine(
+        `Possible secrets in ${file.path}:\n${findings
+          .map((finding) => `  ${describeFinding(file.content, finding)}`)
+          .join('\n')}`,
+      );
+    }
+    if (!flagged.size) {
+      return files;
+    }
 
-          if (!isParentExcluded) {
-            // if no parent folder is excluded, add the file to binary files
-            binaryFiles.add(relativePath);
-          }
-          continue;
-        }
+    let action = mode;
+    if (mode === 'prompt' && interactive) {
+      const paths = [...flagged.keys()].map((file) => file.path);
+      const choice = await vscode.window.showWarningMessage(
+        `${paths.length} file(s) appear to contain secrets: ${paths.join(', ')}. See the ClaudeSync output for details.`,
+        { modal: true },
+        'Redact Secrets',
+        'Upload Anyway',
+        'Skip Files',
+      );
+      if (choice === 'Upload Anyway') {
+        this.outputChannel.appendLine(
+          `Uploading ${paths.length} file(s) with possible secrets as confirmed`,
+        );
+        return files;
+      }
+      action = choice === 'Redact Secrets' ? 'redact' : 'block';
+    }
 
-        result.push({
-          path: relativePath,
-          content: new TextDecoder().decode(content),
-          size: content.byteLength,
+    const result: FileContent[] = [];
+    for (const file of files) {
+      const findings = flagged.get(file);
+      if (!findings) {
+        result.push(file);
+      } else if (action === 'redact') {
+        const content = redactSecrets(file.content, findings);
+        result.push({ ...file, content, size: Buffer.byteLength(content) });
+        this.outputChannel.appendLine(
+          `Redacted ${findings.length} value(s) in ${file.path}`,
+        );
+      } else {
+        excluded.push({
+          path: file.path,
+          reason: 'secret',
+          detail: `${findings.length} finding(s)`,
         });
-      } catch {
-        continue;
+        this.outputChannel.appendLine(
+          `Skipped ${file.path} because it may contain secrets`,
+        );
       }
     }
+    return result;
+  }
 
-    if (binaryFiles.size > 0) {
-      const updatedPatterns = [
-        ...new Set([...this.config.excludePatterns, ...binaryFiles]),
-      ];
-      await this.configManager.saveWorkspaceConfig({
-        excludePatterns: updatedPatterns,
-      });
-      this.config = await this.configManager.getConfig();
+  // the text uploaded for a local file: converted to UTF-8 with normalized line endings
+  private decodeFile(uri: vscode.Uri, content: Uint8Array): string {
+    const { text, encoding } = decodeText(
+      content,
+      vscode.workspace.getConfiguration('files', uri).get<string>('encoding'),
+    );
+    if (encoding !== 'utf-8') {
       this.outputChannel.appendLine(
-        `Added ${binaryFiles.size} binary file(s) to exclude patterns: ${[...binaryFiles].join(', ')}`,
+        `Converted ${vscode.workspace.asRelativePath(uri)} from ${encoding} to UTF-8`,
       );
     }
+    return normalizeLineEndings(text, this.config.lineEndings);
+  }
 
-    return result;
+  // a local file as it is on disk, undefined if it can't be read
+  private async readLocalFile(uri: vscode.Uri): Promise<LocalFile | undefined> {
+    try {
+      const content = await vscode.workspace.fs.readFile(uri);
+      return {
+        ...decodeText(
+          content,
+          vscode.workspace
+            .getConfiguration('files', uri)
+            .get<string>('encoding'),
+        ),
+        bom: content[0] === 0xef && content[1] === 0xbb && content[2] === 0xbf,
+      };
+    } catch {
+      return undefined;
+    }
   }
 
-  private shouldExclude(relativePath: string): boolean {
-    // first check against .gitignore patterns
-    if (this.gitignoreManager.shouldIgnore(relativePath)) {
-      return true;
+  /**
+   * Why a doc from Claude can't be written to its local file, if it can't. Writing it
+   * would replace the file with its upload form: transformed text, redaction markers
+   * instead of the real secrets, or UTF-8 instead of the file's own encoding.
+   */
+  private writeBackBlocker(
+    path: string,
+    remoteContent: string,
+    local: LocalFile | undefined,
+  ): string | undefined {
+    if (new ContentTransformer(this.config.transforms).appliesTo(path)) {
+      return 'content transforms apply to it';
+    }
+    if (containsRedactions(remoteContent)) {
+      return 'it contains redacted secrets';
     }
+    if (local && local.encoding !== 'utf-8') {
+      return `it is encoded in ${local.encoding}`;
+    }
+    return undefined;
+  }
 
-    // then check against exclude patterns from config
-    if (this.config.excludePatterns.length === 0) {
-      return false;
+  // writes text from Claude, restoring the byte order mark and CRLF line endings of the file it replaces
+  private async writeLocalFile(
+    uri: vscode.Uri,
+    text: string,
+    local: LocalFile | undefined,
+  ): Promise<void> {
+    const content =
+      this.config.lineEndings === 'lf' && local?.text.includes('\r\n')
+        ? text.replace(/\r?\n/g, '\r\n')
+        : text;
+    const bytes = Buffer.from(content, 'utf8');
+    await vscode.workspace.fs.writeFile(
+      uri,
+      local?.bom
+        ? Buffer.concat([Buffer.from([0xef, 0xbb, 0xbf]), bytes])
+        : bytes,
+    );
+  }
+
+  // path of a file relative to this manager's folder, or undefined if it lives elsewhere
+  private getRelativePath(uri: vscode.Uri): string | undefined {
+    const workspaceFolder = this.workspaceFolder;
+    if (
+      !workspaceFolder ||
+      vscode.workspace.getWorkspaceFolder(uri)?.uri.toString() !==
+        workspaceFolder.uri.toString()
+    ) {
+      return undefined;
     }
+    return vscode.workspace.asRelativePath(uri, false);
+  }
+
+  // folders sharing a project prefix their doc names with the folder name
+  private get remotePrefix(): string {
+    return this.config.prefixWithFolderName && this.workspaceFolder
+      ? `${this.workspaceFolder.name}/`
+      : '';
+  }
 
-    // create a single ignore instance for all exclude patterns
-    const ig = ignore().add(this.config.excludePatterns);
-    return ig.ignores(relativePath);
+  private toRemoteName(path: string): string {
+    return `${this.remotePrefix}${path}`;
+  }
+
+  private toLocalPath(fileName: string): string | undefined {
+    const prefix = this.remotePrefix;
+    if (!prefix) {
+      return fileName;
+    }
+    return fileName.startsWith(prefix)
+      ? fileName.slice(prefix.length)
+      : undefined;
+  }
+}
+
+/**
+ * Runs worker over items with at most `limit` calls in flight. Once a call fails or
+ * shouldStop returns true no new items are started, and the first error is rethrown
+ * after the in-flight calls have settled.
+ */
+async function runPool<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>,
+  shouldStop: () => boolean = () => false,
+): Promise<void> {
+  let next = 0;
+  let failure: { error: unknown } | undefined;
+  const runners = Array.from(
+    { length: Math.min(Math.max(1, limit), items.length) },
+    async () => {
+      while (!failure && !shouldStop() && next < items.length) {
+        const item = items[next++];
+        try {
+          await worker(item);
+        } catch (error) {
+          failure ??= { error };
+        }
+      }
+    },
+  );
+  await Promise.all(runners);
+  if (failure) {
+    throw failure.error;
   }
 }
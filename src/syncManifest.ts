@@ -0,0 +1,257 @@
+import * as vscode from 'vscode';
+
+export interface ManifestEntry {
+  uuid: string;
+  // hash of the content both sides agreed on at the last sync, i.e. the merge base
+  hash: string;
+  size: number;
+  syncedAt: string;
+  // set when the remote doc has been edited since the last sync
+  remoteHash?: string;
+  // for bundle docs, the files packed into them
+  members?: string[];
+}
+
+interface SyncManifestData {
+  version: 1;
+  projectId?: string;
+  remoteListedAt?: string;
+  // HEAD at the last sync that uploaded every changed file, for incrementalSync
+  lastSyncedCommit?: string;
+  // uncommitted and untracked paths synced along with it, checked again on the next sync
+  lastSyncedDirty?: string[];
+  files: Record<string, ManifestEntry>;
+}
+
+export interface RemoteDocState {
+  uuid: string;
+  fileName: string;
+  hash: string;
+  size: number;
+  createdAt: string;
+}
+
+/**
+ * Local record of what was last uploaded to the Claude project, stored next to
+ * .vscode/claudesync.json so unchanged files can be skipped without listing remote docs.
+ * The content of each last-synced version is kept in .vscode/claudesync.base/ so
+ * conflicts can be shown against a common base. Projects that branches are mapped to
+ * keep their own manifest and bases in .vscode/claudesync.projects/<project id>/.
+ */
+export class SyncManifest {
+  public static readonly MANIFEST_FILE = 'claudesync.manifest.json';
+  public static readonly BASE_DIR = 'claudesync.base';
+  public static readonly PROJECTS_DIR = 'claudesync.projects';
+  private outputChannel: vscode.OutputChannel;
+  private dir?: vscode.Uri;
+  private manifestUri?: vscode.Uri;
+  private baseDir?: vscode.Uri;
+  private data: SyncManifestData = SyncManifest.emptyData();
+
+  constructor(outputChannel: vscode.OutputChannel) {
+    this.outputChannel = outputChannel;
+  }
+
+  private static emptyData(projectId?: string): SyncManifestData {
+    return { version: 1, projectId, files: {} };
+  }
+
+  // separate is set for a branch's project, so the folder's own manifest is kept
+  public async load(
+    workspaceFolder: vscode.Uri,
+    projectId: string,
+    separate = false,
+  ): Promise<void> {
+    const vscodeDir = vscode.Uri.joinPath(workspaceFolder, '.vscode');
+    const dir = separate
+      ? vscode.Uri.joinPath(vscodeDir, SyncManifest.PROJECTS_DIR, projectId)
+      : vscodeDir;
+    this.dir = dir;
+    this.manifestUri = vscode.Uri.joinPath(dir, SyncManifest.MANIFEST_FILE);
+    this.baseDir = vscode.Uri.joinPath(dir, SyncManifest.BASE_DIR);
+
+    try {
+      const content = await vscode.workspace.fs.readFile(this.manifestUri);
+      const data = JSON.parse(Buffer.from(content).toString('utf8'));
+      if (data?.version !== 1 || data.projectId !== projectId) {
+        this.outputChannel.appendLine(
+          'Sync manifest belongs to another project, starting fresh',
+        );
+        this.data = SyncManifest.emptyData(projectId);
+        return;
+      }
+      this.data = { ...data, files: data.files || {} };
+    } catch {
+      this.data = SyncManifest.emptyData(projectId);
+    }
+  }
+
+  public async save(): Promise<void> {
+    if (!this.dir || !this.manifestUri) {
+      return;
+    }
+    try {
+      await vscode.workspace.fs.createDirectory(this.dir);
+      await vscode.workspace.fs.writeFile(
+        this.manifestUri,
+        Buffer.from(JSON.stringify(this.data, null, 2), 'utf8'),
+      );
+      await this.pruneBases();
+    } catch (error) {
+      this.outputChannel.appendLine(
+        `Failed to save sync manifest: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  public get lastSyncedCommit(): string | undefined {
+    return this.data.lastSyncedCommit;
+  }
+
+  public set lastSyncedCommit(commit: string | undefined) {
+    this.data.lastSyncedCommit = commit;
+  }
+
+  public get lastSyncedDirty(): string[] {
+    return this.data.lastSyncedDirty ?? [];
+  }
+
+  public set lastSyncedDirty(paths: string[]) {
+    this.data.lastSyncedDirty = paths.length ? paths : undefined;
+  }
+
+  public get(path: string): ManifestEntry | undefined {
+    return this.data.files[path];
+  }
+
+  public set(path: string, entry: ManifestEntry): void {
+    this.data.files[path] = entry;
+  }
+
+  public delete(path: string): void {
+    delete this.data.files[path];
+  }
+
+  public paths(): string[] {
+    return Object.keys(this.data.files);
+  }
+
+  /**
+   * Records content that now matches on both sides and keeps a copy of it as the
+   * base for future three-way comparisons.
+   */
+  public async markSynced(
+    path: string,
+    uuid: string,
+    hash: string,
+    content: string,
+    members?: string[],
+  ): Promise<void> {
+    this.data.files[path] = {
+      uuid,
+      hash,
+      size: Buffer.byteLength(content, 'utf8'),
+      syncedAt: new Date().toISOString(),
+      members,
+    };
+    await this.storeBase(hash, content);
+  }
+
+  /**
+   * The manifest is stale when the remote listing was never fetched, is older than
+   * maxAgeSeconds, or was invalidated after a failed remote operation.
+   */
+  public isStale(maxAgeSeconds: number): boolean {
+    if (!this.data.remoteListedAt) {
+      return true;
+    }
+    const age = Date.now() - new Date(this.data.remoteListedAt).getTime();
+    return Number.isNaN(age) || age > maxAgeSeconds * 1000;
+  }
+
+  public invalidate(): void {
+    this.data.remoteListedAt = undefined;
+  }
+
+  /**
+   * Rebuilds the manifest from a fresh remote listing. Docs edited remotely since the
+   * last sync keep their base hash and get a remoteHash, so local and remote edits can
+   * be told apart.
+   */
+  public replaceFromRemote(docs: RemoteDocState[]): void {
+    const files: Record<string, ManifestEntry> = {};
+    for (const doc of docs) {
+      const previous = this.data.files[doc.fileName];
+      if (previous && previous.hash !== doc.hash) {
+        files[doc.fileName] = {
+          ...previous,
+          uuid: doc.uuid,
+          remoteHash: doc.hash,
+        };
+        continue;
+      }
+      files[doc.fileName] = {
+        uuid: doc.uuid,
+        hash: doc.hash,
+        size: doc.size,
+        syncedAt: previous?.syncedAt ?? doc.createdAt,
+        members: previous?.members,
+      };
+    }
+    this.data.files = files;
+    this.data.remoteListedAt = new Date().toISOString();
+  }
+
+  public async readBase(hash: string): Promise<string | undefined> {
+    if (!this.baseDir) {
+      return undefined;
+    }
+    try {
+      const content = await vscode.workspace.fs.readFile(
+        vscode.Uri.joinPath(this.baseDir, hash),
+      );
+      return Buffer.from(content).toString('utf8');
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async storeBase(hash: string, content: string): Promise<void> {
+    if (!this.baseDir) {
+      return;
+    }
+    try {
+      await vscode.workspace.fs.createDirectory(this.baseDir);
+      await vscode.workspace.fs.writeFile(
+        vscode.Uri.joinPath(this.baseDir, hash),
+        Buffer.from(content, 'utf8'),
+      );
+    } catch (error) {
+      this.outputChannel.appendLine(
+        `Failed to store sync base: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    }
+  }
+
+  private async pruneBases(): Promise<void> {
+    if (!this.baseDir) {
+      return;
+    }
+    let entries: [string, vscode.FileType][];
+    try {
+      entries = await vscode.workspace.fs.readDirectory(this.baseDir);
+    } catch {
+      return;
+    }
+    const referenced = new Set(
+      Object.values(this.data.files).map((entry) => entry.hash),
+    );
+    for (const [name] of entries) {
+      if (!referenced.has(name)) {
+        await vscode.workspace.fs.delete(
+          vscode.Uri.joinPath(this.baseDir, name),
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,190 @@
+import * as vscode from 'vscode';
+import { describeExclusion } from './exclusionService';
+import {
+  formatKnowledgeUsage,
+  formatTokens,
+  isOverBudget,
+} from './knowledgeBudget';
+import type { SyncPlan } from './types';
+import { formatSize } from './utils';
+
+// keep the webview responsive for workspaces with huge excluded folders
+const MAX_ROWS_PER_SECTION = 500;
+
+interface PreviewRow {
+  path: string;
+  detail?: string;
+}
+
+/**
+ * Webview showing what a workspace sync would do, with a button to run it.
+ */
+export class SyncPreviewPanel {
+  private static current?: SyncPreviewPanel;
+  private readonly panel: vscode.WebviewPanel;
+  private onApply?: () => Promise<void>;
+  private disposables: vscode.Disposable[] = [];
+
+  private constructor() {
+    this.panel = vscode.window.createWebviewPanel(
+      'claudesyncPreview',
+      'ClaudeSync: Sync Preview',
+      vscode.ViewColumn.Active,
+      { enableScripts: true },
+    );
+    this.panel.onDidDispose(() => this.dispose(), null, this.disposables);
+    this.panel.webview.onDidReceiveMessage(
+      async (message: { command?: string }) => {
+        if (message.command === 'apply' && this.onApply) {
+          const apply = this.onApply;
+          this.panel.dispose();
+          await apply();
+        }
+      },
+      null,
+      this.disposables,
+    );
+  }
+
+  public static show(plan: SyncPlan, onApply: () => Promise<void>): void {
+    if (!SyncPreviewPanel.current) {
+      SyncPreviewPanel.current = new SyncPreviewPanel();
+    }
+    const preview = SyncPreviewPanel.current;
+    preview.onApply = onApply;
+    preview.panel.webview.html = preview.render(plan);
+    preview.panel.reveal();
+  }
+
+  private dispose(): void {
+    SyncPreviewPanel.current = undefined;
+    for (const disposable of this.disposables) {
+      disposable.dispose();
+    }
+    this.disposables = [];
+  }
+
+  private render(plan: SyncPlan): string {
+    const nonce = Array.from({ length: 16 }, () =>
+      Math.floor(Math.random() * 36).toString(36),
+    ).join('');
+    const hasChanges =
+      plan.uploads.length > 0 ||
+      plan.conflicts.length > 0 ||
+      plan.remoteDeletes.length > 0;
+
+    const sections = [
+      this.section(
+        'Upload',
+        'New or changed files that will be uploaded',
+        plan.uploads.map((f) => ({
+          path: f.path,
+          detail: f.members
+            ? `${f.members.length} files, ${formatSize(f.size)}`
+            : formatSize(f.size),
+        })),
+      ),
+      this.section(
+        'Conflicts',
+        "Changed locally and on Claude, you'll be asked how to resolve each one",
+        plan.conflicts.map((f) => ({ path: f.path })),
+      ),
+      this.section(
+        'Changed on Claude',
+        "Not uploaded, use 'Pull from Project' to fetch them",
+        plan.remoteChanged.map((f) => ({ path: f.path })),
+      ),
+      this.section(
+        'Unresolved merges',
+        'Still contain conflict markers and will be skipped',
+        plan.unresolved.map((f) => ({ path: f.path })),
+      ),
+      this.section(
+        'Delete from Claude',
+        "Remote files that don't exist locally (cleanupRemoteFiles)",
+        plan.remoteDeletes.map((path) => ({ path })),
+      ),
+      this.section(
+        'Unchanged',
+        'Already up to date and skipped',
+        plan.unchanged.map((f) => ({ path: f.path })),
+      ),
+      this.section(
+        'Largest files',
+        'Biggest contributors to the project knowledge, exclude them to save space',
+        plan.knowledge.largest.map((entry) => ({
+          path: entry.path,
+          detail: `~${formatTokens(entry.tokens)} tokens`,
+        })),
+      ),
+      this.section(
+        'Excluded',
+        'Not synced',
+        plan.excluded.map((f) => ({
+          path: f.path,
+          detail: describeExclusion(f),
+        })),
+      ),
+    ].join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline'; script-src 'nonce-${nonce}';">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <style>
+    body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 16px 16px; }
+    h2 { margin-bottom: 4px; }
+    p.hint { margin-top: 0; color: var(--vscode-descriptionForeground); }
+    p.warning { color: var(--vscode-editorWarning-foreground); }
+    table { border-collapse: collapse; width: 100%; }
+    td { padding: 2px 8px 2px 0; font-family: var(--vscode-editor-font-family); }
+    td.detail { color: var(--vscode-descriptionForeground); text-align: right; white-space: nowrap; }
+    button { background: var(--vscode-button-background); color: var(--vscode-button-foreground); border: none; padding: 6px 14px; cursor: pointer; }
+    button:hover { background: var(--vscode-button-hoverBackground); }
+    button:disabled { opacity: 0.5; cursor: default; }
+  </style>
+</head>
+<body>
+  <h1>Sync Preview</h1>
+  <p>${plan.uploads.length} to upload · ${plan.conflicts.length} conflicts · ${plan.remoteDeletes.length} to delete · ${plan.unchanged.length} unchanged · ${plan.excluded.length} excluded</p>
+  <p${isOverBudget(plan.knowledge) ? ' class="warning"' : ''}>Project knowledge after sync: ${escapeHtml(formatKnowledgeUsage(plan.knowledge))}${isOverBudget(plan.knowledge) ? ', over the knowledge budget' : ''}</p>
+  <button id="apply"${hasChanges ? '' : ' disabled'}>Apply Sync</button>
+  ${sections}
+  <script nonce="${nonce}">
+    const vscode = acquireVsCodeApi();
+    document.getElementById('apply').addEventListener('click', () => {
+      vscode.postMessage({ command: 'apply' });
+    });
+  </script>
+</body>
+</html>`;
+  }
+
+  private section(title: string, hint: string, rows: PreviewRow[]): string {
+    if (rows.length === 0) {
+      return '';
+    }
+    const shown = rows.slice(0, MAX_ROWS_PER_SECTION);
+    const remaining = rows.length - shown.length;
+    return `<h2>${escapeHtml(title)} (${rows.length})</h2>
+  <p class="hint">${escapeHtml(hint)}</p>
+  <table>
+    ${shown
+      .map(
+        (row) =>
+          `<tr><td>${escapeHtml(row.path)}</td><td class="detail">${escapeHtml(row.detail || '')}</td></tr>`,
+      )
+      .join('\n    ')}
+  </table>${remaining > 0 ? `\n  <p class="hint">…and ${remaining} more</p>` : ''}`;
+  }
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
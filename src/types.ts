@@ -1,17 +1,70 @@
 export interface GlobalConfig {
   sessionToken: string;
   addToGitignore: boolean;
+  apiBaseUrl: string;
+}
+
+export type LineEndings = 'preserve' | 'lf';
+
+// what to do with files that appear to contain secrets
+export type SecretScanning = 'block' | 'redact' | 'prompt' | 'off';
+
+export type ContentTransform =
+  | 'stripLicenseHeader'
+  | 'stripComments'
+  | 'collapseWhitespace'
+  | 'truncate';
+
+export interface TransformRule {
+  files: string | string[]; // gitignore-style patterns
+  apply: ContentTransform[];
+  maxLines?: number; // for truncate
+}
+
+export interface PriorityRule {
+  files: string | string[]; // gitignore-style patterns
+  weight: number;
+}
+
+export interface BundleGroup {
+  name: string;
+  files: string | string[]; // gitignore-style patterns
+}
+
+export interface BranchProject {
+  branch: string; // glob of branch names, e.g. release/*
+  project: string; // project name, {branch} is replaced by the branch name
 }
 
 export interface WorkspaceConfig {
   organizationId?: string;
   projectId?: string;
+  // set when several workspace folders share one project
+  prefixWithFolderName?: boolean;
   excludePatterns: string[];
   maxFileSize: number; // in bytes
+  // globs of files that are always synced as text, skipping binary detection
+  treatAsText: string[];
+  lineEndings: LineEndings;
+  secretScanning: SecretScanning;
+  transforms: TransformRule[];
+  knowledgeBudget: number; // in tokens, 0 disables the check
+  knowledgeBudgetAction: 'warn' | 'block' | 'prioritize';
+  priorityRules: PriorityRule[];
+  bundleMode: 'off' | 'directory' | 'groups';
+  bundleGroups: BundleGroup[];
+  bundleMaxFileSize: number; // in bytes, larger files are uploaded on their own
+  repoMap: boolean;
+  incrementalSync: boolean;
+  // branches syncing to another project than projectId, the first matching rule wins
+  branchProjects: BranchProject[];
   autoSync: boolean;
   autoSyncDelay: number; // in seconds
   syncOnStartup: boolean;
   cleanupRemoteFiles: boolean;
+  manifestMaxAge: number; // in seconds
+  detectConflicts: boolean;
+  uploadConcurrency: number;
 }
 
 export interface ClaudeSyncConfig extends GlobalConfig, WorkspaceConfig {}
@@ -21,6 +74,65 @@ export interface FileContent {
   content: string;
   size: number;
   hash?: string;
+  members?: string[]; // for bundle docs, the paths of the files packed into them
+  generated?: boolean; // created by ClaudeSync rather than read from the workspace
+}
+
+export type ExclusionReason =
+  | 'gitignore'
+  | 'claudesyncignore'
+  | 'pattern'
+  | 'size'
+  | 'binary'
+  | 'secret'
+  | 'budget'
+  | 'internal';
+
+export interface ExcludedFile {
+  path: string;
+  reason: ExclusionReason;
+  // e.g. the matching pattern or ignore file, for display and logging
+  detail?: string;
+}
+
+export interface KnowledgeEntry {
+  path: string;
+  size: number; // in bytes
+  tokens: number;
+}
+
+// approximate size of the project knowledge once a sync completes
+export interface KnowledgeEstimate {
+  files: number;
+  size: number; // in bytes
+  tokens: number;
+  budget: number; // in tokens, 0 when no budget is set
+  largest: KnowledgeEntry[];
+}
+
+export interface SyncPlan {
+  files: FileContent[]; // every file that passed exclusion checks
+  uploads: FileContent[];
+  unchanged: FileContent[];
+  remoteChanged: FileContent[];
+  conflicts: FileContent[];
+  unresolved: FileContent[]; // still containing merge conflict markers
+  excluded: ExcludedFile[];
+  remoteOnly: string[]; // remote docs with no local counterpart
+  remoteDeletes: string[]; // remoteOnly docs that cleanupRemoteFiles will delete
+  remotePaths: string[]; // every doc known to exist in the project
+  knowledge: KnowledgeEstimate;
+}
+
+export interface SyncOptions {
+  // files lists every file of their workspace folder, as a workspace sync does
+  wholeFolder?: boolean;
+  // recorded as the last synced commit once every changed file was synced
+  commit?: string;
+  // commit whose contents are uploaded instead of the working tree
+  revision?: string;
+  // started by auto-sync, files that would need a question are skipped instead
+  auto?: boolean;
 }
 
 export interface SyncResult {
@@ -30,4 +142,5 @@ export interface SyncResult {
   data?: {
     syncedFiles: number;
   };
+  plan?: SyncPlan;
 }
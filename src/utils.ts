@@ -17,3 +17,19 @@ export async function computeSHA256Hash(content: string): Promise<string> {
   const hashBuffer = await crypto.subtle.digest('SHA-256', msgBuffer);
   return ab2hex(hashBuffer);
 }
+
+export async function computeSHA256HashOfBytes(
+  content: Uint8Array,
+): Promise<string> {
+  const hashBuffer = await crypto.subtle.digest('SHA-256', content);
+  return ab2hex(hashBuffer);
+}
+
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  return bytes < 1024 * 1024
+    ? `${(bytes / 1024).toFixed(1)} KB`
+    : `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}